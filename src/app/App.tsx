@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Sparkles } from 'lucide-react';
 import { Header } from './components/Header';
 import { Hero } from './components/Hero';
@@ -7,51 +7,184 @@ import { LeaveConfiguration } from './components/LeaveConfiguration';
 import { PreferencesCard } from './components/PreferencesCard';
 import { ResultsSection } from './components/ResultsSection';
 import { SuggestionsPanel } from './components/SuggestionsPanel';
-import { optimizeLeaves, OptimizationResult } from './utils/optimizer';
+import { PlanSwitcher } from './components/PlanSwitcher';
+import { DateConstraintsCard } from './components/DateConstraintsCard';
+import { PlanningWindowCard } from './components/PlanningWindowCard';
+import {
+  BlockedPeriod,
+  OptimizationResult,
+  OptimizerProgress,
+  OptionalHolidayGroup,
+  PinnedPeriod,
+} from './utils/optimizer';
+import {
+  isCancelled,
+  isOptimizerError,
+  OptimizerRun,
+  runOptimizer,
+} from './utils/optimizerClient';
+import { describePlanDiff } from './utils/planDiff';
+import { DEFAULT_LEAVE_POOLS, LeavePool } from './utils/leavePools';
+import { DEFAULT_WORK_WEEK, WorkWeek } from './utils/workWeek';
+import { Holiday } from './utils/calendarModel';
+import { DEFAULT_SCORING_PROFILE, ScoringProfile } from './utils/scoring';
+import { getCalendarYearWindow, isInWindow, PlanningWindow } from './utils/planningWindow';
+
+/** quiet time after the last input change before the plan is recomputed */
+const LIVE_UPDATE_DELAY_MS = 600;
 
 function App() {
   const [activeTab, setActiveTab] = useState('Dashboard');
   
-  // Initialize with some sample holidays for demo purposes
-  const getSampleHolidays = () => {
-    const year = new Date().getFullYear();
-    return [
-      new Date(year, 0, 1),   // New Year's Day
-      new Date(year, 0, 26),  // Republic Day
-      new Date(year, 2, 8),   // Holi
-      new Date(year, 7, 15),  // Independence Day
-      new Date(year, 9, 2),   // Gandhi Jayanti
-      new Date(year, 10, 1),  // Diwali
-      new Date(year, 11, 25), // Christmas
-    ];
+  // Initialize with some sample holidays for demo purposes, in every
+  // year the window touches
+  const getSampleHolidays = (window: PlanningWindow) => {
+    const years: number[] = [];
+    for (let year = window.start.getFullYear(); year <= window.end.getFullYear(); year++) {
+      years.push(year);
+    }
+    return years
+      .flatMap(year => [
+        { date: new Date(year, 0, 1), name: "New Year's Day" },
+        { date: new Date(year, 0, 26), name: 'Republic Day' },
+        { date: new Date(year, 2, 8), name: 'Holi' },
+        { date: new Date(year, 7, 15), name: 'Independence Day' },
+        { date: new Date(year, 9, 2), name: 'Gandhi Jayanti' },
+        { date: new Date(year, 10, 1), name: 'Diwali' },
+        { date: new Date(year, 11, 25), name: 'Christmas' },
+      ])
+      .filter(h => isInWindow(h.date, window));
   };
   
-  const [selectedHolidays, setSelectedHolidays] = useState<Date[]>(getSampleHolidays());
-  const [earnedLeaves, setEarnedLeaves] = useState(15);
-  const [casualLeaves, setCasualLeaves] = useState(7);
-  const [sickLeaves, setSickLeaves] = useState(5);
+  const [planningWindow, setPlanningWindow] = useState<PlanningWindow>(
+    getCalendarYearWindow(new Date().getFullYear())
+  );
+  const [selectedHolidays, setSelectedHolidays] = useState<Holiday[]>(getSampleHolidays(planningWindow));
+  const [leavePools, setLeavePools] = useState<LeavePool[]>(DEFAULT_LEAVE_POOLS);
+  const [halfDayHolidays, setHalfDayHolidays] = useState<Holiday[]>([]);
+  const [halfDayLeaves, setHalfDayLeaves] = useState(true);
+  const [optionalHolidays, setOptionalHolidays] = useState<OptionalHolidayGroup>({
+    id: 'restricted',
+    label: 'Restricted holidays',
+    limit: 2,
+    holidays: [],
+  });
+  const [workWeek, setWorkWeek] = useState<WorkWeek>(DEFAULT_WORK_WEEK);
   const [sandwichRule, setSandwichRule] = useState(true);
-  const [preferLonger, setPreferLonger] = useState(false);
+  const [scoringProfile, setScoringProfile] = useState<ScoringProfile>(DEFAULT_SCORING_PROFILE);
+  const [weekendBreaks, setWeekendBreaks] = useState(false);
   const [maxContinuousLeaves, setMaxContinuousLeaves] = useState(3);
-  const [optimizationResult, setOptimizationResult] = useState<OptimizationResult | null>(null);
+  const [anchorWindow, setAnchorWindow] = useState(3);
+  const [bridgeRadius, setBridgeRadius] = useState(7);
+  const [minGapWorkingDays, setMinGapWorkingDays] = useState(1);
+  const [minBreaksPerQuarter, setMinBreaksPerQuarter] = useState(0);
+  const [maxLeavesPerMonth, setMaxLeavesPerMonth] = useState(0);
+  const [blockedPeriods, setBlockedPeriods] = useState<BlockedPeriod[]>([]);
+  const [pinnedPeriods, setPinnedPeriods] = useState<PinnedPeriod[]>([]);
+  const [plans, setPlans] = useState<OptimizationResult[]>([]);
+  const [activePlan, setActivePlan] = useState(0);
   const [isOptimizing, setIsOptimizing] = useState(false);
+  const [progress, setProgress] = useState<OptimizerProgress | null>(null);
+  const [optimizeError, setOptimizeError] = useState<string | null>(null);
+  const runRef = useRef<OptimizerRun | null>(null);
+  /** how the recommended plan moved in the last recompute, null on the first */
+  const [planChange, setPlanChange] = useState<string | null>(null);
   const [resultMonth, setResultMonth] = useState(new Date());
   const [selectedRecommendationId, setSelectedRecommendationId] = useState<number | null>(null);
 
-  const handleOptimize = () => {
+  const handleOptimize = async () => {
+    runRef.current?.cancel();
     setIsOptimizing(true);
-    
-    // Simulate optimization delay for better UX
-    setTimeout(() => {
-      // Only use earned + casual leaves for optimization (sick leaves are separate)
-      const totalLeaves = earnedLeaves + casualLeaves;
-      const result = optimizeLeaves(selectedHolidays, totalLeaves, sandwichRule, preferLonger, maxContinuousLeaves);
-      setOptimizationResult(result);
+    setProgress(null);
+    setOptimizeError(null);
+
+    // Sick leave is not plannable, the optimizer skips it
+    const run = runOptimizer(
+      {
+        holidays: selectedHolidays,
+        leaves: leavePools,
+        sandwichRule,
+        profile: scoringProfile,
+        maxContinuousLeaves,
+        options: {
+          weekendBreaks,
+          anchorWindow,
+          bridgeRadius,
+          workWeek,
+          halfDayHolidays,
+          halfDayLeaves,
+          optionalHolidays: [optionalHolidays],
+          blockedPeriods,
+          pinnedPeriods,
+          minGapWorkingDays,
+          minBreaksPerQuarter,
+          maxLeavesPerMonth: maxLeavesPerMonth || undefined,
+          window: planningWindow,
+        },
+      },
+      setProgress
+    );
+    runRef.current = run;
+    const [previous] = plans;
+
+    try {
+      const results = await run.result;
+      setPlanChange(previous ? describePlanDiff(previous, results[0]) : null);
+      setPlans(results);
+      setActivePlan(0);
+      setResultMonth(planningWindow.start);
       setSelectedRecommendationId(null); // Reset selection on new optimization
+    } catch (error: unknown) {
+      // a newer run (or an input change) took over; leave the state to it
+      if (isCancelled(error)) return;
+      if (isOptimizerError(error)) {
+        setOptimizeError(error.details ?? error.message);
+      } else {
+        setOptimizeError(error instanceof Error ? error.message : 'Optimization failed');
+      }
+    }
+    runRef.current = null;
+    setIsOptimizing(false);
+  };
+
+  // results computed from old inputs are no use: drop the run in flight,
+  // and once there is a plan, recompute it when the inputs settle
+  useEffect(() => {
+    if (runRef.current) {
+      runRef.current.cancel();
+      runRef.current = null;
       setIsOptimizing(false);
-    }, 1000);
+      setProgress(null);
+    }
+    if (plans.length === 0) return;
+
+    const timer = setTimeout(handleOptimize, LIVE_UPDATE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [
+    selectedHolidays, halfDayHolidays, halfDayLeaves, optionalHolidays, leavePools,
+    workWeek, sandwichRule, scoringProfile, weekendBreaks, maxContinuousLeaves,
+    anchorWindow, bridgeRadius, minGapWorkingDays, minBreaksPerQuarter,
+    maxLeavesPerMonth, blockedPeriods, pinnedPeriods, planningWindow,
+  ]);
+
+  // a worker still running when the page goes away is stopped with it
+  useEffect(() => () => runRef.current?.cancel(), []);
+
+  // a window with none of the chosen holidays in it starts from the samples
+  const handlePlanningWindowChange = (window: PlanningWindow) => {
+    setPlanningWindow(window);
+    if (!selectedHolidays.some(h => isInWindow(h.date, window))) {
+      setSelectedHolidays(getSampleHolidays(window));
+    }
+  };
+
+  const handlePlanChange = (index: number) => {
+    setActivePlan(index);
+    setSelectedRecommendationId(null);
   };
 
+  const optimizationResult = plans[activePlan] ?? null;
+
   const handleResultMonthChange = (delta: number) => {
     const newMonth = new Date(resultMonth);
     newMonth.setMonth(newMonth.getMonth() + delta);
@@ -78,23 +211,50 @@ function App() {
             <HolidayInput
               selectedHolidays={selectedHolidays}
               onHolidaysChange={setSelectedHolidays}
+              halfDayHolidays={halfDayHolidays}
+              onHalfDayHolidaysChange={setHalfDayHolidays}
+              optionalHolidays={optionalHolidays}
+              onOptionalHolidaysChange={setOptionalHolidays}
+              workWeek={workWeek}
             />
             <div className="space-y-8">
+              <PlanningWindowCard
+                planningWindow={planningWindow}
+                onPlanningWindowChange={handlePlanningWindowChange}
+              />
               <LeaveConfiguration
-                earnedLeaves={earnedLeaves}
-                casualLeaves={casualLeaves}
-                sickLeaves={sickLeaves}
-                onEarnedLeavesChange={setEarnedLeaves}
-                onCasualLeavesChange={setCasualLeaves}
-                onSickLeavesChange={setSickLeaves}
+                pools={leavePools}
+                onPoolsChange={setLeavePools}
               />
               <PreferencesCard
+                workWeek={workWeek}
+                onWorkWeekChange={setWorkWeek}
                 sandwichRule={sandwichRule}
                 onSandwichRuleChange={setSandwichRule}
-                preferLonger={preferLonger}
-                onPreferLongerChange={setPreferLonger}
+                halfDayLeaves={halfDayLeaves}
+                onHalfDayLeavesChange={setHalfDayLeaves}
+                scoringProfile={scoringProfile}
+                onScoringProfileChange={setScoringProfile}
+                weekendBreaks={weekendBreaks}
+                onWeekendBreaksChange={setWeekendBreaks}
                 maxContinuousLeaves={maxContinuousLeaves}
                 onMaxContinuousLeavesChange={setMaxContinuousLeaves}
+                anchorWindow={anchorWindow}
+                onAnchorWindowChange={setAnchorWindow}
+                bridgeRadius={bridgeRadius}
+                onBridgeRadiusChange={setBridgeRadius}
+                minGapWorkingDays={minGapWorkingDays}
+                onMinGapWorkingDaysChange={setMinGapWorkingDays}
+                minBreaksPerQuarter={minBreaksPerQuarter}
+                onMinBreaksPerQuarterChange={setMinBreaksPerQuarter}
+                maxLeavesPerMonth={maxLeavesPerMonth}
+                onMaxLeavesPerMonthChange={setMaxLeavesPerMonth}
+              />
+              <DateConstraintsCard
+                blockedPeriods={blockedPeriods}
+                onBlockedPeriodsChange={setBlockedPeriods}
+                pinnedPeriods={pinnedPeriods}
+                onPinnedPeriodsChange={setPinnedPeriods}
               />
             </div>
           </div>
@@ -103,7 +263,10 @@ function App() {
           <div className="flex justify-center">
             <button
               onClick={handleOptimize}
-              disabled={selectedHolidays.length === 0 || isOptimizing}
+              disabled={
+                (selectedHolidays.length === 0 && optionalHolidays.holidays.length === 0 && pinnedPeriods.length === 0) ||
+                isOptimizing
+              }
               className="group relative px-8 py-4 bg-gradient-to-r from-primary to-secondary text-white rounded-2xl shadow-lg hover:shadow-xl transition-all hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
             >
               <div className="flex items-center gap-3">
@@ -118,6 +281,37 @@ function App() {
             </button>
           </div>
 
+          {isOptimizing && (
+            <div className="max-w-sm mx-auto mt-4">
+              <div className="h-1.5 bg-muted rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-gradient-to-r from-primary to-secondary transition-all"
+                  style={{ width: `${progress ? (progress.done / progress.total) * 100 : 0}%` }}
+                />
+              </div>
+              <div className="flex items-center justify-between mt-2 text-xs text-muted-foreground">
+                <span>{progress?.stage ?? 'Starting…'}</span>
+                <button
+                  onClick={() => {
+                    runRef.current?.cancel();
+                    runRef.current = null;
+                    setIsOptimizing(false);
+                    setProgress(null);
+                  }}
+                  className="hover:text-foreground transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
+          {optimizeError && (
+            <p className="text-center text-sm text-destructive mt-4">
+              {optimizeError}
+            </p>
+          )}
+
           {selectedHolidays.length === 0 && (
             <p className="text-center text-sm text-muted-foreground mt-4">
               Please select at least one company holiday to get started
@@ -131,7 +325,13 @@ function App() {
             <div className="text-center">
               <div className="inline-flex items-center gap-2 bg-secondary/10 px-4 py-2 rounded-full mb-4">
                 <div className="w-2 h-2 bg-secondary rounded-full animate-pulse" />
-                <span className="text-sm text-secondary">Optimization Complete</span>
+                <span className="text-sm text-secondary">
+                  {isOptimizing
+                    ? 'Updating your plan…'
+                    : planChange === null
+                      ? 'Optimization Complete'
+                      : `Updated: ${planChange || 'same totals'}`}
+                </span>
               </div>
               <h2 className="text-3xl mb-2">Your Optimized Leave Plan</h2>
               <p className="text-muted-foreground">
@@ -139,9 +339,18 @@ function App() {
               </p>
             </div>
 
+            <PlanSwitcher
+              plans={plans}
+              activePlan={activePlan}
+              onPlanChange={handlePlanChange}
+            />
+
             <ResultsSection
               result={optimizationResult}
               holidays={selectedHolidays}
+              halfDayHolidays={halfDayHolidays}
+              optionalHolidays={optionalHolidays.holidays}
+              workWeek={workWeek}
               currentMonth={resultMonth}
               onMonthChange={handleResultMonthChange}
               selectedRecommendationId={selectedRecommendationId}
@@ -149,6 +358,10 @@ function App() {
 
             <SuggestionsPanel 
               result={optimizationResult}
+              holidays={selectedHolidays}
+              halfDayHolidays={halfDayHolidays}
+              optionalHolidays={optionalHolidays.holidays}
+              workWeek={workWeek}
               onViewDetails={setSelectedRecommendationId}
               selectedRecommendationId={selectedRecommendationId}
             />
@@ -0,0 +1,179 @@
+import { ReactNode, useState } from 'react';
+import { Ban, Pin, Plus, X } from 'lucide-react';
+import { format, isAfter, isSameDay, parse } from 'date-fns';
+import { BlockedPeriod, PinnedPeriod } from '../utils/optimizer';
+
+interface DateConstraintsCardProps {
+  blockedPeriods: BlockedPeriod[];
+  onBlockedPeriodsChange: (periods: BlockedPeriod[]) => void;
+  pinnedPeriods: PinnedPeriod[];
+  onPinnedPeriodsChange: (periods: PinnedPeriod[]) => void;
+}
+
+type ConstraintKind = BlockedPeriod['kind'] | 'pinned';
+
+const DEFAULT_LABELS: Record<ConstraintKind, string> = {
+  blackout: 'Blackout',
+  mandatory: 'Mandatory work',
+  pinned: 'Booked leave',
+};
+
+// module level so the list rows aren't remounted on every render
+function ConstraintRow({
+  icon,
+  label,
+  detail,
+  onRemove,
+}: {
+  icon: ReactNode;
+  label: string;
+  detail: string;
+  onRemove: () => void;
+}) {
+  return (
+    <div className="flex items-center gap-3 p-3 bg-muted/30 rounded-xl text-sm">
+      {icon}
+      <div className="flex-1 min-w-0">
+        <div className="truncate">{label}</div>
+        <div className="text-xs text-muted-foreground">{detail}</div>
+      </div>
+      <button
+        onClick={onRemove}
+        className="p-1 rounded hover:bg-muted transition-colors"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
+
+export function DateConstraintsCard({
+  blockedPeriods,
+  onBlockedPeriodsChange,
+  pinnedPeriods,
+  onPinnedPeriodsChange,
+}: DateConstraintsCardProps) {
+  const [label, setLabel] = useState('');
+  const [start, setStart] = useState('');
+  const [end, setEnd] = useState('');
+  const [kind, setKind] = useState<ConstraintKind>('blackout');
+
+  const handleAdd = () => {
+    if (!start) return;
+
+    const from = parse(start, 'yyyy-MM-dd', new Date());
+    const to = end ? parse(end, 'yyyy-MM-dd', new Date()) : from;
+    const [first, last] = isAfter(from, to) ? [to, from] : [from, to];
+
+    const period = {
+      start: first,
+      end: last,
+      label: label.trim() || DEFAULT_LABELS[kind],
+    };
+
+    if (kind === 'pinned') {
+      onPinnedPeriodsChange([...pinnedPeriods, period]);
+    } else {
+      onBlockedPeriodsChange([...blockedPeriods, { ...period, kind }]);
+    }
+    setLabel('');
+    setStart('');
+    setEnd('');
+  };
+
+  const formatRange = (period: { start: Date; end: Date }) =>
+    isSameDay(period.start, period.end)
+      ? format(period.start, 'MMM dd')
+      : `${format(period.start, 'MMM dd')} - ${format(period.end, 'MMM dd')}`;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm p-8">
+      <div className="mb-8">
+        <h3>Fixed Dates</h3>
+        <p className="text-sm text-muted-foreground">
+          Leave you've already booked, release freezes or days you must be in the office
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="Label (e.g. Sister's wedding, Q4 release freeze)"
+          className="sm:col-span-2 px-3 py-2 rounded-lg bg-white border border-border"
+        />
+        <div>
+          <span className="block text-xs text-muted-foreground mb-1">From</span>
+          <input
+            type="date"
+            value={start}
+            onChange={(e) => setStart(e.target.value)}
+            className="w-full px-3 py-2 rounded-lg bg-white border border-border"
+          />
+        </div>
+        <div>
+          <span className="block text-xs text-muted-foreground mb-1">To (optional)</span>
+          <input
+            type="date"
+            value={end}
+            onChange={(e) => setEnd(e.target.value)}
+            className="w-full px-3 py-2 rounded-lg bg-white border border-border"
+          />
+        </div>
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as ConstraintKind)}
+          className="px-3 py-2 rounded-lg bg-white border border-border"
+        >
+          <option value="pinned">Booked leave (must take)</option>
+          <option value="blackout">Blackout (no leave)</option>
+          <option value="mandatory">Mandatory work (even on days off)</option>
+        </select>
+        <button
+          onClick={handleAdd}
+          disabled={!start}
+          className="flex items-center justify-center gap-2 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Plus className="w-4 h-4" />
+          Add
+        </button>
+      </div>
+
+      {(pinnedPeriods.length > 0 || blockedPeriods.length > 0) && (
+        <div className="mt-6 space-y-2">
+          {pinnedPeriods.map((period, index) => (
+            <ConstraintRow
+              key={`pin-${index}`}
+              icon={<Pin className="w-4 h-4 flex-shrink-0 text-primary" />}
+              label={period.label}
+              detail={`${formatRange(period)} · Booked leave`}
+              onRemove={() =>
+                onPinnedPeriodsChange(pinnedPeriods.filter((_, i) => i !== index))
+              }
+            />
+          ))}
+          {blockedPeriods.map((period, index) => (
+            <ConstraintRow
+              key={`blocked-${index}`}
+              icon={
+                <Ban
+                  className={`w-4 h-4 flex-shrink-0 ${
+                    period.kind === 'blackout' ? 'text-destructive' : 'text-accent'
+                  }`}
+                />
+              }
+              label={period.label}
+              detail={`${formatRange(period)} · ${
+                period.kind === 'blackout' ? 'No leave' : 'Must be in office'
+              }`}
+              onRemove={() =>
+                onBlockedPeriodsChange(blockedPeriods.filter((_, i) => i !== index))
+              }
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
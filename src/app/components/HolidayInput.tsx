@@ -1,34 +1,100 @@
 import { useState, useRef } from 'react';
-import { Upload, FileText, Calendar, Loader2, CheckCircle, AlertCircle, X } from 'lucide-react';
+import { Upload, FileText, Calendar, Loader2, CheckCircle, AlertCircle, X, Plus, Minus } from 'lucide-react';
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay } from 'date-fns';
-import { parseHolidayPDF } from '../utils/pdfParser';
+import { parseHolidayPDF, ParsedHoliday } from '../utils/pdfParser';
+import { parseHolidayICS } from '../utils/icsParser';
+import { ColumnMapping, detectColumns, readHolidaySheet, SheetCell, sheetToHolidays, SheetTable } from '../utils/sheetParser';
+import { WorkWeek } from '../utils/workWeek';
+import { buildCalendarModel, getCalendarDay, getDayType, Holiday, toDayKey } from '../utils/calendarModel';
+import { OptionalHolidayGroup } from '../utils/optimizer';
 
 interface HolidayInputProps {
-  selectedHolidays: Date[];
-  onHolidaysChange: (holidays: Date[]) => void;
+  selectedHolidays: Holiday[];
+  onHolidaysChange: (holidays: Holiday[]) => void;
+  /** office closes at noon on these days */
+  halfDayHolidays: Holiday[];
+  onHalfDayHolidaysChange: (holidays: Holiday[]) => void;
+  /** restricted holidays, of which up to `limit` may be taken */
+  optionalHolidays: OptionalHolidayGroup;
+  onOptionalHolidaysChange: (group: OptionalHolidayGroup) => void;
+  workWeek: WorkWeek;
 }
 
-export function HolidayInput({ selectedHolidays, onHolidaysChange }: HolidayInputProps) {
+export function HolidayInput({
+  selectedHolidays,
+  onHolidaysChange,
+  halfDayHolidays,
+  onHalfDayHolidaysChange,
+  optionalHolidays,
+  onOptionalHolidaysChange,
+  workWeek,
+}: HolidayInputProps) {
   const [activeTab, setActiveTab] = useState<'manual' | 'upload'>('manual');
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [isParsing, setIsParsing] = useState(false);
   const [parseError, setParseError] = useState<string | null>(null);
   const [parseSuccess, setParseSuccess] = useState<number | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  // what the last upload was, for the status messages
+  const [fileKind, setFileKind] = useState<'PDF' | 'calendar' | 'spreadsheet'>('PDF');
+  // a spreadsheet whose date column couldn't be found, waiting for the user to map it
+  const [sheetMapping, setSheetMapping] = useState<{ table: SheetTable; mapping: ColumnMapping } | null>(null);
+  // names of days clicked back to working days, restored if they're clicked again
+  const [removedNames, setRemovedNames] = useState<Record<string, string>>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const calendar = buildCalendarModel({
+    holidays: selectedHolidays,
+    halfDayHolidays,
+    optionalHolidays: optionalHolidays.holidays,
+    workWeek,
+  });
 
+  // cycles a day through holiday → half-day holiday → restricted
+  // holiday → working day, its name going along
   const toggleHoliday = (date: Date) => {
-    const exists = selectedHolidays.some(h => isSameDay(h, date));
-    if (exists) {
-      onHolidaysChange(selectedHolidays.filter(h => !isSameDay(h, date)));
+    const type = getDayType(calendar, date);
+    const name = getCalendarDay(calendar, date).holidayName ?? removedNames[toDayKey(date)];
+    const holiday: Holiday = name ? { date, name } : { date };
+
+    if (type === 'holiday') {
+      onHolidaysChange(selectedHolidays.filter(h => !isSameDay(h.date, date)));
+      onHalfDayHolidaysChange([...halfDayHolidays, holiday]);
+    } else if (type === 'half-holiday') {
+      onHalfDayHolidaysChange(halfDayHolidays.filter(h => !isSameDay(h.date, date)));
+      onOptionalHolidaysChange({ ...optionalHolidays, holidays: [...optionalHolidays.holidays, holiday] });
+    } else if (type === 'optional') {
+      onOptionalHolidaysChange({
+        ...optionalHolidays,
+        holidays: optionalHolidays.holidays.filter(h => !isSameDay(h.date, date)),
+      });
+      if (name) setRemovedNames({ ...removedNames, [toDayKey(date)]: name });
     } else {
-      onHolidaysChange([...selectedHolidays, date]);
+      onHolidaysChange([...selectedHolidays, holiday]);
+    }
+  };
+
+  const renameHoliday = (date: Date, name: string) => {
+    const rename = (holidays: Holiday[]) =>
+      holidays.map(h => (isSameDay(h.date, date) ? (name ? { date: h.date, name } : { date: h.date }) : h));
+    const type = getDayType(calendar, date);
+
+    if (type === 'holiday') {
+      onHolidaysChange(rename(selectedHolidays));
+    } else if (type === 'half-holiday') {
+      onHalfDayHolidaysChange(rename(halfDayHolidays));
+    } else if (type === 'optional') {
+      onOptionalHolidaysChange({ ...optionalHolidays, holidays: rename(optionalHolidays.holidays) });
     }
   };
 
   const monthStart = startOfMonth(currentMonth);
   const monthEnd = endOfMonth(currentMonth);
   const monthDays = eachDayOfInterval({ start: monthStart, end: monthEnd });
+  // company, half-day and restricted holidays alike, one row per day
+  const monthHolidays = [...selectedHolidays, ...halfDayHolidays, ...optionalHolidays.holidays]
+    .filter(h => isSameMonth(h.date, currentMonth))
+    .filter((h, i, all) => all.findIndex(other => isSameDay(other.date, h.date)) === i)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
 
   const changeMonth = (delta: number) => {
     const newMonth = new Date(currentMonth);
@@ -36,12 +102,44 @@ export function HolidayInput({ selectedHolidays, onHolidaysChange }: HolidayInpu
     setCurrentMonth(newMonth);
   };
 
+  /**
+   * Add the uploaded holidays that aren't on the calendar yet, with the
+   * names the file gives them
+   */
+  const mergeHolidays = (parsedHolidays: ParsedHoliday[], source: string) => {
+    const newHolidays = parsedHolidays.filter(h => !calendar.days.has(toDayKey(h.date)));
+
+    if (newHolidays.length === 0) {
+      setParseError(`All dates from the ${source} are already selected`);
+      return;
+    }
+
+    onHolidaysChange([
+      ...selectedHolidays,
+      ...newHolidays.map(h => (h.name ? { date: h.date, name: h.name } : { date: h.date })),
+    ]);
+    setParseSuccess(newHolidays.length);
+
+    // Show sample dates in console for debugging
+    if (import.meta.env.DEV) {
+      console.log('[HolidayInput] Parsed holidays:', parsedHolidays.slice(0, 5).map(h => ({
+        date: format(h.date, 'yyyy-MM-dd'),
+        name: h.name
+      })));
+    }
+  };
+
   const handleFileSelect = async (file: File) => {
     // Validate file type
-    if (file.type !== 'application/pdf' && !file.name.toLowerCase().endsWith('.pdf')) {
-      setParseError('Please upload a PDF file (.pdf)');
+    const name = file.name.toLowerCase();
+    const isCalendar = file.type === 'text/calendar' || name.endsWith('.ics');
+    const isSheet = file.type === 'text/csv' || name.endsWith('.csv') || name.endsWith('.xlsx');
+    if (!isCalendar && !isSheet && file.type !== 'application/pdf' && !name.endsWith('.pdf')) {
+      setParseError('Please upload a PDF (.pdf), calendar (.ics) or spreadsheet (.csv, .xlsx) file');
       return;
     }
+    const kind = isCalendar ? 'calendar' : isSheet ? 'spreadsheet' : 'PDF';
+    setFileKind(kind);
 
     // Validate file size (5MB limit)
     const MAX_SIZE = 5 * 1024 * 1024; // 5MB
@@ -53,39 +151,38 @@ export function HolidayInput({ selectedHolidays, onHolidaysChange }: HolidayInpu
     setIsParsing(true);
     setParseError(null);
     setParseSuccess(null);
+    setSheetMapping(null);
 
     try {
-      const parsedHolidays = await parseHolidayPDF(file);
+      if (isSheet) {
+        const table = await readHolidaySheet(file);
+        const mapping = detectColumns(table);
+        const holidays = mapping ? sheetToHolidays(table, mapping) : [];
+
+        if (holidays.length > 0) {
+          mergeHolidays(holidays, kind);
+        } else {
+          // no column reads as dates: let the user point at it
+          setSheetMapping({ table, mapping: mapping ?? { dateColumn: 0, nameColumn: null } });
+        }
+        return;
+      }
+
+      const parsedHolidays = isCalendar
+        ? await parseHolidayICS(file)
+        : await parseHolidayPDF(file);
       
       if (parsedHolidays.length === 0) {
-        setParseError('No dates found in PDF. Please try manual selection or ensure the PDF contains readable dates in formats like "01 Jan 2026" or "01/01/2026".');
+        setParseError(isCalendar
+          ? 'No holidays found in the calendar. Please try manual selection.'
+          : 'No dates found in PDF. Please try manual selection or ensure the PDF contains readable dates in formats like "01 Jan 2026" or "01/01/2026".');
         setIsParsing(false);
         return;
       }
 
-      // Extract dates from parsed holidays
-      const dates = parsedHolidays.map(h => h.date);
-      
-      // Merge with existing holidays (avoid duplicates)
-      const existingDateKeys = new Set(selectedHolidays.map(d => format(d, 'yyyy-MM-dd')));
-      const newDates = dates.filter(d => !existingDateKeys.has(format(d, 'yyyy-MM-dd')));
-      
-      if (newDates.length > 0) {
-        onHolidaysChange([...selectedHolidays, ...newDates]);
-        setParseSuccess(newDates.length);
-        
-        // Show sample dates in console for debugging
-        if (import.meta.env.DEV) {
-          console.log('[HolidayInput] Parsed holidays:', parsedHolidays.slice(0, 5).map(h => ({
-            date: format(h.date, 'yyyy-MM-dd'),
-            name: h.name
-          })));
-        }
-      } else {
-        setParseError('All dates from PDF are already selected');
-      }
+      mergeHolidays(parsedHolidays, kind);
     } catch (error: any) {
-      console.error('PDF parsing error:', error);
+      console.error(`${kind} parsing error:`, error);
       
       // Handle structured error objects
       if (error && typeof error === 'object' && 'type' in error && 'message' in error) {
@@ -96,13 +193,29 @@ export function HolidayInput({ selectedHolidays, onHolidaysChange }: HolidayInpu
         setParseError(errorMessage);
       } else {
         // Fallback for non-structured errors
-        setParseError(error instanceof Error ? error.message : 'Failed to parse PDF. Please try manual selection.');
+        setParseError(error instanceof Error ? error.message : `Failed to parse ${kind}. Please try manual selection.`);
       }
     } finally {
       setIsParsing(false);
     }
   };
 
+  const showCell = (cell: SheetCell) =>
+    cell instanceof Date ? format(new Date(cell.getUTCFullYear(), cell.getUTCMonth(), cell.getUTCDate()), 'MMM dd, yyyy') : String(cell ?? '');
+
+  const handleImportMapped = () => {
+    if (!sheetMapping) return;
+
+    const holidays = sheetToHolidays(sheetMapping.table, sheetMapping.mapping);
+    if (holidays.length === 0) {
+      setParseError(`No dates found in "${sheetMapping.table.headers[sheetMapping.mapping.dateColumn]}". Please pick the column with the holiday dates.`);
+      return;
+    }
+    setParseError(null);
+    setSheetMapping(null);
+    mergeHolidays(holidays, 'spreadsheet');
+  };
+
   const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -166,7 +279,7 @@ export function HolidayInput({ selectedHolidays, onHolidaysChange }: HolidayInpu
               : 'bg-muted text-muted-foreground hover:bg-muted/80'
           }`}
         >
-          Upload PDF
+          Upload File
         </button>
       </div>
 
@@ -203,16 +316,29 @@ export function HolidayInput({ selectedHolidays, onHolidaysChange }: HolidayInpu
             ))}
             {/* Days */}
             {monthDays.map(day => {
-              const isHoliday = selectedHolidays.some(h => isSameDay(h, day));
-              const isWeekend = day.getDay() === 0 || day.getDay() === 6;
+              const type = getDayType(calendar, day);
+              const isHoliday = type === 'holiday';
+              const isHalfDay = type === 'half-holiday';
+              const isOptional = type === 'optional';
+              const isWeekend = type === 'weekend';
               
               return (
                 <button
                   key={day.toString()}
                   onClick={() => toggleHoliday(day)}
+                  title={
+                    [
+                      getCalendarDay(calendar, day).holidayName,
+                      isHalfDay ? 'Half-day holiday' : isOptional ? 'Restricted holiday' : undefined,
+                    ].filter(Boolean).join(' · ') || undefined
+                  }
                   className={`p-2 rounded-lg text-sm transition-all hover:scale-105 ${
                     isHoliday
                       ? 'bg-primary text-primary-foreground shadow-sm'
+                      : isHalfDay
+                      ? 'bg-gradient-to-br from-primary from-50% to-primary/20 to-50% text-primary-foreground shadow-sm'
+                      : isOptional
+                      ? 'border-2 border-dashed border-primary text-primary'
                       : isWeekend
                       ? 'bg-muted/50 text-muted-foreground'
                       : 'hover:bg-muted'
@@ -226,14 +352,69 @@ export function HolidayInput({ selectedHolidays, onHolidaysChange }: HolidayInpu
 
           <p className="text-xs text-muted-foreground mt-4 text-center">
             {selectedHolidays.length} holidays selected
+            {halfDayHolidays.length > 0 && ` · ${halfDayHolidays.length} half-day`}
+          </p>
+          <p className="text-xs text-muted-foreground mt-1 text-center">
+            Click a holiday again to make it a half day (office closes at noon), and again for a restricted holiday
           </p>
+
+          {/* Names of this month's holidays */}
+          {monthHolidays.length > 0 && (
+            <div className="mt-4 space-y-2">
+              {monthHolidays.map(h => (
+                <div key={toDayKey(h.date)} className="flex items-center gap-3 text-sm">
+                  <span className="w-24 shrink-0 text-muted-foreground">{format(h.date, 'EEE, MMM dd')}</span>
+                  <input
+                    type="text"
+                    value={h.name ?? ''}
+                    onChange={(e) => renameHoliday(h.date, e.target.value)}
+                    placeholder="Holiday name (e.g. Diwali)"
+                    className="flex-1 px-3 py-2 rounded-lg bg-white border border-border"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Restricted holidays */}
+          {optionalHolidays.holidays.length > 0 && (
+            <div className="mt-4 flex items-center justify-between p-3 bg-muted/30 rounded-lg text-sm">
+              <div>
+                <div>{optionalHolidays.holidays.length} restricted holiday{optionalHolidays.holidays.length > 1 ? 's' : ''}</div>
+                <div className="text-xs text-muted-foreground">The plan picks the ones worth taking</div>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground">Choose up to</span>
+                <button
+                  onClick={() =>
+                    onOptionalHolidaysChange({ ...optionalHolidays, limit: Math.max(0, optionalHolidays.limit - 1) })
+                  }
+                  className="w-6 h-6 rounded bg-white border border-border hover:bg-muted flex items-center justify-center"
+                >
+                  <Minus className="w-3 h-3" />
+                </button>
+                <span className="w-4 text-center">{optionalHolidays.limit}</span>
+                <button
+                  onClick={() =>
+                    onOptionalHolidaysChange({
+                      ...optionalHolidays,
+                      limit: Math.min(optionalHolidays.holidays.length, optionalHolidays.limit + 1),
+                    })
+                  }
+                  className="w-6 h-6 rounded bg-white border border-border hover:bg-muted flex items-center justify-center"
+                >
+                  <Plus className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
+          )}
         </div>
       ) : (
         <div>
           <input
             ref={fileInputRef}
             type="file"
-            accept=".pdf,application/pdf"
+            accept=".pdf,application/pdf,.ics,text/calendar,.csv,text/csv,.xlsx"
             onChange={handleFileInputChange}
             className="hidden"
           />
@@ -263,7 +444,7 @@ export function HolidayInput({ selectedHolidays, onHolidaysChange }: HolidayInpu
             
             {isParsing ? (
               <>
-                <h4 className="mb-2">Parsing PDF...</h4>
+                <h4 className="mb-2">Parsing {fileKind}...</h4>
                 <p className="text-sm text-muted-foreground">
                   Extracting holiday dates from your calendar
                 </p>
@@ -275,25 +456,120 @@ export function HolidayInput({ selectedHolidays, onHolidaysChange }: HolidayInpu
               <>
                 <h4 className="mb-2">Upload Company Holiday Calendar</h4>
                 <p className="text-sm text-muted-foreground mb-4">
-                  Drag and drop your PDF file or click to browse
+                  Drag and drop your PDF, .ics, .csv or .xlsx file or click to browse
                 </p>
                 <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
                   <FileText className="w-4 h-4" />
-                  <span>Supported format: PDF (max 5MB)</span>
+                  <span>Supported formats: PDF, iCalendar .ics, CSV, Excel .xlsx (max 5MB)</span>
                 </div>
                 <div className="mt-2 text-xs text-muted-foreground">
-                  Supports dates in formats: "01 Jan 2026", "Jan 1, 2026", "01/01/2026"
+                  Dates like "01 Jan 2026", "Jan 1, 2026", "01/01/2026", Google/Outlook holiday calendars, or a Date / Occasion sheet
                 </div>
               </>
             )}
           </div>
 
+          {/* Column mapping, when the date column couldn't be detected */}
+          {sheetMapping && (
+            <div className="mt-4 p-4 bg-muted/30 rounded-lg text-sm space-y-3">
+              <div>
+                <p className="font-medium">Which columns hold the holidays?</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  We couldn't find the dates in this spreadsheet. Pick the date column, and the name column if there is one.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <span className="block text-xs text-muted-foreground mb-1">Date column</span>
+                  <select
+                    value={sheetMapping.mapping.dateColumn}
+                    onChange={(e) =>
+                      setSheetMapping({ ...sheetMapping, mapping: { ...sheetMapping.mapping, dateColumn: Number(e.target.value) } })
+                    }
+                    className="w-full px-3 py-2 rounded-lg bg-white border border-border"
+                  >
+                    {sheetMapping.table.headers.map((header, i) => (
+                      <option key={i} value={i}>{header}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <span className="block text-xs text-muted-foreground mb-1">Name column</span>
+                  <select
+                    value={sheetMapping.mapping.nameColumn ?? ''}
+                    onChange={(e) =>
+                      setSheetMapping({
+                        ...sheetMapping,
+                        mapping: { ...sheetMapping.mapping, nameColumn: e.target.value === '' ? null : Number(e.target.value) },
+                      })
+                    }
+                    className="w-full px-3 py-2 rounded-lg bg-white border border-border"
+                  >
+                    <option value="">None</option>
+                    {sheetMapping.table.headers.map((header, i) => (
+                      <option key={i} value={i}>{header}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {/* First rows, chosen columns highlighted */}
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr>
+                      {sheetMapping.table.headers.map((header, i) => (
+                        <th key={i} className="text-left font-normal text-muted-foreground px-2 py-1">{header}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sheetMapping.table.rows.slice(0, 3).map((row, r) => (
+                      <tr key={r}>
+                        {row.map((cell, i) => (
+                          <td
+                            key={i}
+                            className={`px-2 py-1 ${
+                              i === sheetMapping.mapping.dateColumn
+                                ? 'bg-primary/10 text-primary'
+                                : i === sheetMapping.mapping.nameColumn
+                                ? 'bg-secondary/10'
+                                : ''
+                            }`}
+                          >
+                            {showCell(cell)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setSheetMapping(null)}
+                  className="px-3 py-1.5 rounded-lg bg-muted hover:bg-muted/80 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleImportMapped}
+                  className="px-3 py-1.5 rounded-lg bg-primary text-primary-foreground hover:bg-primary/90 transition-colors"
+                >
+                  Import holidays
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Error Message */}
           {parseError && (
             <div className="mt-4 p-4 bg-destructive/10 border border-destructive/20 rounded-lg flex items-start gap-3">
               <AlertCircle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
               <div className="flex-1">
-                <p className="text-sm text-destructive font-medium">Error parsing PDF</p>
+                <p className="text-sm text-destructive font-medium">Error parsing {fileKind}</p>
                 <p className="text-xs text-destructive/80 mt-1">{parseError}</p>
               </div>
               <button
@@ -310,9 +586,9 @@ export function HolidayInput({ selectedHolidays, onHolidaysChange }: HolidayInpu
             <div className="mt-4 p-4 bg-green-50 border border-green-200 rounded-lg flex items-start gap-3">
               <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
               <div className="flex-1">
-                <p className="text-sm text-green-800 font-medium">Successfully parsed PDF</p>
+                <p className="text-sm text-green-800 font-medium">Successfully parsed {fileKind}</p>
                 <p className="text-xs text-green-700 mt-1">
-                  Found {parseSuccess} holiday{parseSuccess > 1 ? 's' : ''} from the PDF
+                  Found {parseSuccess} holiday{parseSuccess > 1 ? 's' : ''} from the {fileKind}
                 </p>
                 <p className="text-xs text-green-600 mt-1">
                   You can switch to "Manual Selection" to review or edit the dates
@@ -1,36 +1,30 @@
 import { Plus, Minus } from 'lucide-react';
+import { format, parse } from 'date-fns';
+import { getAnnualAccrual, LeaveAccrual, LeavePool } from '../utils/leavePools';
 
 interface LeaveConfigurationProps {
-  earnedLeaves: number;
-  casualLeaves: number;
-  sickLeaves: number;
-  onEarnedLeavesChange: (value: number) => void;
-  onCasualLeavesChange: (value: number) => void;
-  onSickLeavesChange: (value: number) => void;
+  pools: LeavePool[];
+  onPoolsChange: (pools: LeavePool[]) => void;
 }
 
-export function LeaveConfiguration({
-  earnedLeaves,
-  casualLeaves,
-  sickLeaves,
-  onEarnedLeavesChange,
-  onCasualLeavesChange,
-  onSickLeavesChange,
-}: LeaveConfigurationProps) {
-  const LeaveCounter = ({
-    label,
-    value,
-    onChange,
-    description,
-    color,
-  }: {
-    label: string;
-    value: number;
-    onChange: (value: number) => void;
-    description: string;
-    color: string;
-  }) => (
-    <div className="bg-muted/30 rounded-xl p-4">
+const POOL_COLORS = ['border-primary', 'border-secondary', 'border-accent'];
+
+// module level so the inputs keep focus while the card re-renders
+function LeaveCounter({
+  label,
+  value,
+  onChange,
+  description,
+  color,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  description: string;
+  color: string;
+}) {
+  return (
+    <div>
       <label className="block mb-2">{label}</label>
       <p className="text-xs text-muted-foreground mb-3">{description}</p>
       <div className="flex items-center gap-3">
@@ -53,6 +47,207 @@ export function LeaveConfiguration({
       </div>
     </div>
   );
+}
+
+function MiniStepper({
+  label,
+  value,
+  min,
+  unsetLabel,
+  onChange,
+}: {
+  label: string;
+  value: number | undefined;
+  min: number;
+  unsetLabel: string;
+  onChange: (value: number | undefined) => void;
+}) {
+  return (
+    <div>
+      <span className="block text-muted-foreground mb-1">{label}</span>
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() =>
+            onChange(value === undefined || value <= min ? undefined : value - 1)
+          }
+          className="w-6 h-6 rounded bg-white border border-border hover:bg-muted flex items-center justify-center"
+        >
+          <Minus className="w-3 h-3" />
+        </button>
+        <span className="flex-1 text-center">
+          {value === undefined ? unsetLabel : `${value} days`}
+        </span>
+        <button
+          onClick={() => onChange(value === undefined ? min : value + 1)}
+          className="w-6 h-6 rounded bg-white border border-border hover:bg-muted flex items-center justify-center"
+        >
+          <Plus className="w-3 h-3" />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function PoolRules({
+  pool,
+  onChange,
+}: {
+  pool: LeavePool;
+  onChange: (changes: Partial<LeavePool>) => void;
+}) {
+  // the annual balance follows the accrual schedule
+  const updateAccrual = (accrual: LeaveAccrual | undefined) => {
+    onChange(accrual
+      ? { accrual, balance: getAnnualAccrual(accrual) }
+      : { accrual: undefined });
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-border/60 grid grid-cols-1 sm:grid-cols-3 gap-3 text-xs">
+      <MiniStepper
+        label="Max in a row"
+        value={pool.maxConsecutive}
+        min={1}
+        unsetLabel="No limit"
+        onChange={(maxConsecutive) => onChange({ maxConsecutive })}
+      />
+      <div>
+        <span className="block text-muted-foreground mb-1">Spend order</span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => onChange({ priority: Math.max(1, pool.priority - 1) })}
+            className="w-6 h-6 rounded bg-white border border-border hover:bg-muted flex items-center justify-center"
+          >
+            <Minus className="w-3 h-3" />
+          </button>
+          <span className="flex-1 text-center">#{pool.priority}</span>
+          <button
+            onClick={() => onChange({ priority: pool.priority + 1 })}
+            className="w-6 h-6 rounded bg-white border border-border hover:bg-muted flex items-center justify-center"
+          >
+            <Plus className="w-3 h-3" />
+          </button>
+        </div>
+      </div>
+      <label className="flex items-center gap-2 sm:justify-center cursor-pointer">
+        <input
+          type="checkbox"
+          checked={pool.combinable}
+          onChange={(e) => onChange({ combinable: e.target.checked })}
+          className="accent-primary"
+        />
+        <span className="text-muted-foreground">Combine with other leave</span>
+      </label>
+
+      {/* Year-end policy */}
+      <MiniStepper
+        label="Carry forward up to"
+        value={pool.maxCarryForward}
+        min={0}
+        unsetLabel="All days"
+        onChange={(maxCarryForward) => onChange({ maxCarryForward })}
+      />
+      <MiniStepper
+        label="Encash up to"
+        value={pool.maxEncashable}
+        min={0}
+        unsetLabel="None"
+        onChange={(maxEncashable) => onChange({ maxEncashable })}
+      />
+      <div>
+        <span className="block text-muted-foreground mb-1">Lapses on</span>
+        <input
+          type="date"
+          value={pool.lapseDate ? format(pool.lapseDate, 'yyyy-MM-dd') : ''}
+          onChange={(e) =>
+            onChange({
+              lapseDate: e.target.value ? parse(e.target.value, 'yyyy-MM-dd', new Date()) : undefined,
+            })
+          }
+          className="w-full px-2 py-1 rounded bg-white border border-border"
+        />
+      </div>
+
+      {/* Accrual */}
+      <label className="sm:col-span-3 flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={!!pool.accrual}
+          onChange={(e) =>
+            updateAccrual(e.target.checked
+              ? { frequency: 'monthly', creditPerPeriod: pool.balance / 12, openingBalance: 0, allowNegative: false }
+              : undefined)
+          }
+          className="accent-primary"
+        />
+        <span className="text-muted-foreground">Accrues during the leave year instead of all at its start</span>
+      </label>
+      {pool.accrual && (
+        <>
+          <div>
+            <span className="block text-muted-foreground mb-1">Credited</span>
+            <select
+              value={pool.accrual.frequency}
+              onChange={(e) =>
+                updateAccrual({
+                  ...pool.accrual!,
+                  frequency: e.target.value as LeaveAccrual['frequency'],
+                })
+              }
+              className="w-full px-2 py-1 rounded bg-white border border-border"
+            >
+              <option value="monthly">Monthly</option>
+              <option value="quarterly">Quarterly</option>
+            </select>
+          </div>
+          <div>
+            <span className="block text-muted-foreground mb-1">Days per credit</span>
+            <input
+              type="number"
+              min={0}
+              step={0.25}
+              value={pool.accrual.creditPerPeriod}
+              onChange={(e) =>
+                updateAccrual({ ...pool.accrual!, creditPerPeriod: Math.max(0, Number(e.target.value)) })
+              }
+              className="w-full px-2 py-1 rounded bg-white border border-border"
+            />
+          </div>
+          <div>
+            <span className="block text-muted-foreground mb-1">Opening balance</span>
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={pool.accrual.openingBalance}
+              onChange={(e) =>
+                updateAccrual({ ...pool.accrual!, openingBalance: Math.max(0, Number(e.target.value)) })
+              }
+              className="w-full px-2 py-1 rounded bg-white border border-border"
+            />
+          </div>
+          <label className="sm:col-span-3 flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={pool.accrual.allowNegative}
+              onChange={(e) => updateAccrual({ ...pool.accrual!, allowNegative: e.target.checked })}
+              className="accent-primary"
+            />
+            <span className="text-muted-foreground">Allow a negative balance (borrow against future credits)</span>
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
+
+export function LeaveConfiguration({
+  pools,
+  onPoolsChange,
+}: LeaveConfigurationProps) {
+  const updatePool = (id: string, changes: Partial<LeavePool>) => {
+    onPoolsChange(pools.map(p => (p.id === id ? { ...p, ...changes } : p)));
+  };
 
   return (
     <div className="bg-white rounded-2xl shadow-sm p-8">
@@ -62,37 +257,28 @@ export function LeaveConfiguration({
       </div>
 
       <div className="space-y-4">
-        <LeaveCounter
-          label="Earned Leaves"
-          value={earnedLeaves}
-          onChange={onEarnedLeavesChange}
-          description="Annual earned leave balance"
-          color="border-primary"
-        />
-        <LeaveCounter
-          label="Casual Leaves"
-          value={casualLeaves}
-          onChange={onCasualLeavesChange}
-          description="Casual or personal leave days"
-          color="border-secondary"
-        />
-        <LeaveCounter
-          label="Sick Leaves"
-          value={sickLeaves}
-          onChange={onSickLeavesChange}
-          description="Medical/sick leave allocation"
-          color="border-accent"
-        />
+        {pools.map((pool, index) => (
+          <div key={pool.id} className="bg-muted/30 rounded-xl p-4">
+            <LeaveCounter
+              label={pool.label}
+              value={pool.balance}
+              onChange={(balance) => updatePool(pool.id, { balance })}
+              description={pool.plannable ? pool.description : `${pool.description} (not used for planning)`}
+              color={POOL_COLORS[index % POOL_COLORS.length]}
+            />
+            {pool.plannable && <PoolRules pool={pool} onChange={(changes) => updatePool(pool.id, changes)} />}
+          </div>
+        ))}
       </div>
 
       <div className="mt-6 p-4 bg-primary/5 rounded-xl">
         <div className="flex items-center justify-between">
           <span className="text-sm text-muted-foreground">Total Available Leaves</span>
           <span className="text-2xl text-primary">
-            {earnedLeaves + casualLeaves + sickLeaves}
+            {pools.reduce((sum, p) => sum + p.balance, 0)}
           </span>
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
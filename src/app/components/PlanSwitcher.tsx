@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { Columns3, Layers } from 'lucide-react';
+import { OptimizationResult } from '../utils/optimizer';
+
+interface PlanSwitcherProps {
+  plans: OptimizationResult[];
+  activePlan: number;
+  onPlanChange: (index: number) => void;
+}
+
+const STATS: { label: string; value: (plan: OptimizationResult) => number; better: 'higher' | 'lower' }[] = [
+  { label: 'Total days off', value: p => p.totalDaysOff, better: 'higher' },
+  { label: 'Leaves used', value: p => p.leavesUsed, better: 'lower' },
+  { label: 'Longest break', value: p => p.longestBreak, better: 'higher' },
+  { label: 'Breaks', value: p => p.totalVacations, better: 'higher' },
+  { label: 'Leaves left', value: p => p.leavesRemaining, better: 'higher' },
+];
+
+/** what an alternative gains over the recommended plan */
+function describePlan(plan: OptimizationResult, recommended: OptimizationResult) {
+  if (plan === recommended) return 'Recommended';
+  if (plan.longestBreak > recommended.longestBreak) return 'Longer break';
+  if (plan.totalVacations > recommended.totalVacations) return 'More breaks';
+  if (plan.leavesUsed < recommended.leavesUsed) {
+    const saved = recommended.leavesUsed - plan.leavesUsed;
+    return `Saves ${saved} leave${saved > 1 ? 's' : ''}`;
+  }
+  return 'Alternative';
+}
+
+export function PlanSwitcher({ plans, activePlan, onPlanChange }: PlanSwitcherProps) {
+  const [comparing, setComparing] = useState(false);
+  const [recommended] = plans;
+
+  if (plans.length < 2) return null;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm p-8">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3>Alternative Plans</h3>
+          <p className="text-sm text-muted-foreground">
+            Each plan trades days off, leaves spent and break length differently
+          </p>
+        </div>
+        <button
+          onClick={() => setComparing(!comparing)}
+          className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors text-sm ${
+            comparing ? 'bg-secondary text-secondary-foreground' : 'bg-muted hover:bg-muted/80'
+          }`}
+        >
+          <Columns3 className="w-4 h-4" />
+          {comparing ? 'Hide comparison' : 'Compare'}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        {plans.map((plan, index) => (
+          <button
+            key={index}
+            onClick={() => onPlanChange(index)}
+            className={`flex items-center gap-3 px-4 py-3 rounded-xl border-2 text-left transition-all ${
+              activePlan === index
+                ? 'border-primary bg-primary/5'
+                : 'border-border hover:border-primary/30'
+            }`}
+          >
+            <Layers className={`w-4 h-4 ${activePlan === index ? 'text-primary' : 'text-muted-foreground'}`} />
+            <div>
+              <div className="text-sm">{describePlan(plan, recommended)}</div>
+              <div className="text-xs text-muted-foreground">
+                {plan.totalDaysOff} days off · {plan.leavesUsed} leaves
+              </div>
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {comparing && (
+        <div className="mt-6 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-muted-foreground">
+                <th className="text-left font-normal pb-2 pr-4" />
+                {plans.map((plan, index) => (
+                  <th
+                    key={index}
+                    className={`font-normal pb-2 px-3 text-center ${activePlan === index ? 'text-primary' : ''}`}
+                  >
+                    {describePlan(plan, recommended)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {STATS.map(stat => {
+                const values = plans.map(stat.value);
+                const best = stat.better === 'higher' ? Math.max(...values) : Math.min(...values);
+                return (
+                  <tr key={stat.label} className="border-t border-border/60">
+                    <td className="py-2 pr-4 text-muted-foreground">{stat.label}</td>
+                    {values.map((value, index) => (
+                      <td
+                        key={index}
+                        className={`py-2 px-3 text-center ${value === best ? 'text-secondary' : ''}`}
+                      >
+                        {value}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { CalendarRange, ChevronLeft, ChevronRight } from 'lucide-react';
+import { format, isAfter, parse } from 'date-fns';
+import {
+  describeWindow,
+  getCalendarYearWindow,
+  getFiscalYearWindow,
+  getLeaveYears,
+  PlanningWindow,
+  PlanningWindowKind,
+} from '../utils/planningWindow';
+
+interface PlanningWindowCardProps {
+  planningWindow: PlanningWindow;
+  onPlanningWindowChange: (window: PlanningWindow) => void;
+}
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const KINDS: { kind: PlanningWindowKind; label: string }[] = [
+  { kind: 'calendar', label: 'Calendar year' },
+  { kind: 'fiscal', label: 'Fiscal year (Apr–Mar)' },
+  { kind: 'custom', label: 'Custom' },
+];
+
+export function PlanningWindowCard({ planningWindow, onPlanningWindowChange }: PlanningWindowCardProps) {
+  const year = planningWindow.start.getFullYear();
+  const leaveYears = getLeaveYears(planningWindow);
+
+  const changeKind = (kind: PlanningWindowKind) => {
+    if (kind === 'calendar') onPlanningWindowChange(getCalendarYearWindow(year));
+    else if (kind === 'fiscal') onPlanningWindowChange(getFiscalYearWindow(year));
+    // a custom window starts from the current one
+    else onPlanningWindowChange({ ...planningWindow, kind });
+  };
+
+  const shiftYear = (delta: number) => {
+    onPlanningWindowChange(planningWindow.kind === 'fiscal'
+      ? getFiscalYearWindow(year + delta)
+      : getCalendarYearWindow(year + delta));
+  };
+
+  const changeDate = (field: 'start' | 'end', value: string) => {
+    if (!value) return;
+
+    const date = parse(value, 'yyyy-MM-dd', new Date());
+    const next = { ...planningWindow, [field]: date };
+    if (isAfter(next.start, next.end)) return;
+    onPlanningWindowChange(next);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm p-8">
+      <div className="mb-8">
+        <h3>Planning Window</h3>
+        <p className="text-sm text-muted-foreground">
+          When to plan leave, and when your balances reset
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        <div className="grid grid-cols-3 gap-2">
+          {KINDS.map(({ kind, label }) => (
+            <button
+              key={kind}
+              onClick={() => changeKind(kind)}
+              className={`px-3 py-2 rounded-lg border-2 text-sm transition-all ${
+                planningWindow.kind === kind
+                  ? 'border-primary bg-primary/5'
+                  : 'border-border hover:border-primary/30'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {planningWindow.kind === 'custom' ? (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+            <div>
+              <span className="block text-xs text-muted-foreground mb-1">From</span>
+              <input
+                type="date"
+                value={format(planningWindow.start, 'yyyy-MM-dd')}
+                onChange={(e) => changeDate('start', e.target.value)}
+                className="w-full px-3 py-2 rounded-lg bg-white border border-border"
+              />
+            </div>
+            <div>
+              <span className="block text-xs text-muted-foreground mb-1">To</span>
+              <input
+                type="date"
+                value={format(planningWindow.end, 'yyyy-MM-dd')}
+                onChange={(e) => changeDate('end', e.target.value)}
+                className="w-full px-3 py-2 rounded-lg bg-white border border-border"
+              />
+            </div>
+            <div>
+              <span className="block text-xs text-muted-foreground mb-1">Leave year starts in</span>
+              <select
+                value={planningWindow.leaveYearStartMonth}
+                onChange={(e) =>
+                  onPlanningWindowChange({ ...planningWindow, leaveYearStartMonth: Number(e.target.value) })
+                }
+                className="w-full px-3 py-2 rounded-lg bg-white border border-border"
+              >
+                {MONTHS.map((month, index) => (
+                  <option key={month} value={index}>
+                    {month}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => shiftYear(-1)}
+              className="w-10 h-10 rounded-lg bg-white border border-border hover:bg-muted transition-all hover:scale-105 flex items-center justify-center"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <div className="flex-1 text-center p-3 rounded-lg bg-white border-2 border-primary">
+              {leaveYears[0].label}
+            </div>
+            <button
+              onClick={() => shiftYear(1)}
+              className="w-10 h-10 rounded-lg bg-white border border-border hover:bg-muted transition-all hover:scale-105 flex items-center justify-center"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        <div className="flex items-start gap-3 p-4 bg-muted/30 rounded-xl text-sm">
+          <CalendarRange className="w-4 h-4 mt-0.5 text-primary shrink-0" />
+          <div>
+            <div>{describeWindow(planningWindow)}</div>
+            <div className="text-xs text-muted-foreground">
+              {leaveYears.length > 1
+                ? `Spans ${leaveYears.length} leave years (${leaveYears.map(y => y.label).join(', ')}); each day is charged to its own year's balance`
+                : `One leave year (${leaveYears[0].label})`}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,25 +1,167 @@
 import { Info, Plus, Minus } from 'lucide-react';
 import { useState } from 'react';
+import { WORK_WEEKS, WorkWeek } from '../utils/workWeek';
+import { ScoringProfile } from '../utils/scoring';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// module level so a drag isn't cut short by the card re-rendering
+function WeightSlider({
+  label,
+  hint,
+  value,
+  onChange,
+}: {
+  label: string;
+  hint: string;
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div>
+      <div className="flex items-center justify-between text-sm mb-1">
+        <span>{label}</span>
+        <span className="text-muted-foreground">{Math.round(value * 100)}%</span>
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        step={10}
+        value={Math.round(value * 100)}
+        onChange={(e) => onChange(Number(e.target.value) / 100)}
+        className="w-full accent-primary"
+      />
+      <p className="text-xs text-muted-foreground">{hint}</p>
+    </div>
+  );
+}
+
+// module level, like WeightSlider, so it isn't remounted on every change
+function PreferenceStepper({
+  label,
+  tooltip,
+  description,
+  value,
+  min,
+  unit = 'days',
+  onChange,
+}: {
+  label: string;
+  tooltip: string;
+  description: string;
+  value: number;
+  min: number;
+  unit?: string;
+  onChange: (value: number) => void;
+}) {
+  const [showTooltip, setShowTooltip] = useState(false);
+
+  return (
+    <div className="p-4 bg-muted/30 rounded-xl">
+      <div className="flex-1">
+        <div className="flex items-center gap-2 mb-1">
+          <label>{label}</label>
+          <div className="relative">
+            <button
+              onMouseEnter={() => setShowTooltip(true)}
+              onMouseLeave={() => setShowTooltip(false)}
+              className="text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <Info className="w-4 h-4" />
+            </button>
+            {showTooltip && (
+              <div className="absolute left-0 top-6 w-64 bg-popover text-popover-foreground p-3 rounded-lg shadow-lg border border-border z-10 text-sm">
+                {tooltip}
+              </div>
+            )}
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground mb-3">
+          {description}
+        </p>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => onChange(Math.max(min, value - 1))}
+            className="w-10 h-10 rounded-lg bg-white border border-border hover:bg-muted transition-all hover:scale-105 flex items-center justify-center"
+          >
+            <Minus className="w-4 h-4" />
+          </button>
+          <div className="flex-1 text-center p-3 rounded-lg bg-white border-2 border-primary">
+            <span className="text-2xl">{value}</span>
+            <span className="text-sm text-muted-foreground ml-1">{unit}</span>
+          </div>
+          <button
+            onClick={() => onChange(value + 1)}
+            className="w-10 h-10 rounded-lg bg-white border border-border hover:bg-muted transition-all hover:scale-105 flex items-center justify-center"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
 
 interface PreferencesCardProps {
+  workWeek: WorkWeek;
+  onWorkWeekChange: (value: WorkWeek) => void;
   sandwichRule: boolean;
   onSandwichRuleChange: (value: boolean) => void;
-  preferLonger: boolean;
-  onPreferLongerChange: (value: boolean) => void;
+  halfDayLeaves: boolean;
+  onHalfDayLeavesChange: (value: boolean) => void;
+  scoringProfile: ScoringProfile;
+  onScoringProfileChange: (value: ScoringProfile) => void;
+  weekendBreaks: boolean;
+  onWeekendBreaksChange: (value: boolean) => void;
   maxContinuousLeaves: number;
   onMaxContinuousLeavesChange: (value: number) => void;
+  anchorWindow: number;
+  onAnchorWindowChange: (value: number) => void;
+  bridgeRadius: number;
+  onBridgeRadiusChange: (value: number) => void;
+  minGapWorkingDays: number;
+  onMinGapWorkingDaysChange: (value: number) => void;
+  minBreaksPerQuarter: number;
+  onMinBreaksPerQuarterChange: (value: number) => void;
+  maxLeavesPerMonth: number;
+  onMaxLeavesPerMonthChange: (value: number) => void;
 }
 
 export function PreferencesCard({
+  workWeek,
+  onWorkWeekChange,
   sandwichRule,
   onSandwichRuleChange,
-  preferLonger,
-  onPreferLongerChange,
+  halfDayLeaves,
+  onHalfDayLeavesChange,
+  scoringProfile,
+  onScoringProfileChange,
+  weekendBreaks,
+  onWeekendBreaksChange,
   maxContinuousLeaves,
   onMaxContinuousLeavesChange,
+  anchorWindow,
+  onAnchorWindowChange,
+  bridgeRadius,
+  onBridgeRadiusChange,
+  minGapWorkingDays,
+  onMinGapWorkingDaysChange,
+  minBreaksPerQuarter,
+  onMinBreaksPerQuarterChange,
+  maxLeavesPerMonth,
+  onMaxLeavesPerMonthChange,
 }: PreferencesCardProps) {
   const [showTooltip, setShowTooltip] = useState<string | null>(null);
 
+  // neutral → liked → disliked → neutral
+  const cycleMonth = (month: number) => {
+    const monthPreferences = [...scoringProfile.monthPreferences];
+    const current = monthPreferences[month];
+    monthPreferences[month] = current === 0 ? 1 : current === 1 ? -1 : 0;
+    onScoringProfileChange({ ...scoringProfile, monthPreferences });
+  };
+
   return (
     <div className="bg-white rounded-2xl shadow-sm p-8">
       <div className="mb-8">
@@ -28,6 +170,44 @@ export function PreferencesCard({
       </div>
 
       <div className="space-y-4">
+        {/* Work Week */}
+        <div className="p-4 bg-muted/30 rounded-xl">
+          <div className="flex items-center gap-2 mb-1">
+            <label htmlFor="work-week">Work Week</label>
+            <div className="relative">
+              <button
+                onMouseEnter={() => setShowTooltip('workWeek')}
+                onMouseLeave={() => setShowTooltip(null)}
+                className="text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <Info className="w-4 h-4" />
+              </button>
+              {showTooltip === 'workWeek' && (
+                <div className="absolute left-0 top-6 w-64 bg-popover text-popover-foreground p-3 rounded-lg shadow-lg border border-border z-10 text-sm">
+                  Your weekly off days. Leaves are only needed on working days, so this changes which breaks are cheapest.
+                </div>
+              )}
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground mb-3">
+            Which days of the week you normally have off
+          </p>
+          <select
+            id="work-week"
+            value={workWeek.id}
+            onChange={(e) =>
+              onWorkWeekChange(WORK_WEEKS.find(w => w.id === e.target.value) ?? workWeek)
+            }
+            className="w-full p-3 rounded-lg bg-white border border-border text-sm"
+          >
+            {WORK_WEEKS.map(w => (
+              <option key={w.id} value={w.id}>
+                {w.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
         {/* Sandwich Rule */}
         <div className="flex items-start justify-between p-4 bg-muted/30 rounded-xl">
           <div className="flex-1">
@@ -43,13 +223,13 @@ export function PreferencesCard({
                 </button>
                 {showTooltip === 'sandwich' && (
                   <div className="absolute left-0 top-6 w-64 bg-popover text-popover-foreground p-3 rounded-lg shadow-lg border border-border z-10 text-sm">
-                    If a working day falls between two holidays, it's treated as a holiday too. This maximizes consecutive days off.
+                    Weekends and holidays that fall between two leave days are counted as leave days too, as many HR policies require.
                   </div>
                 )}
               </div>
             </div>
             <p className="text-xs text-muted-foreground">
-              Automatically mark working days between holidays as leave days
+              Charge weekends and holidays sandwiched between leaves against your balance
             </p>
           </div>
           <button
@@ -66,87 +246,213 @@ export function PreferencesCard({
           </button>
         </div>
 
-        {/* Prefer Longer Vacations */}
+        {/* Half-day Leaves */}
         <div className="flex items-start justify-between p-4 bg-muted/30 rounded-xl">
           <div className="flex-1">
             <div className="flex items-center gap-2 mb-1">
-              <label>Prefer Longer Vacations</label>
+              <label>Allow Half-day Leaves</label>
               <div className="relative">
                 <button
-                  onMouseEnter={() => setShowTooltip('longer')}
+                  onMouseEnter={() => setShowTooltip('halfDay')}
                   onMouseLeave={() => setShowTooltip(null)}
                   className="text-muted-foreground hover:text-foreground transition-colors"
                 >
                   <Info className="w-4 h-4" />
                 </button>
-                {showTooltip === 'longer' && (
+                {showTooltip === 'halfDay' && (
                   <div className="absolute left-0 top-6 w-64 bg-popover text-popover-foreground p-3 rounded-lg shadow-lg border border-border z-10 text-sm">
-                    Optimize for fewer, longer vacation periods instead of many short breaks throughout the year.
+                    On a half-day holiday the office closes at noon, so taking the morning off as a half-day leave frees the whole day for 0.5 leave.
                   </div>
                 )}
               </div>
             </div>
             <p className="text-xs text-muted-foreground">
-              Optimize for extended breaks over frequent long weekends
+              Half-day holidays cost 0.5 leave instead of a full day
             </p>
           </div>
           <button
-            onClick={() => onPreferLongerChange(!preferLonger)}
+            onClick={() => onHalfDayLeavesChange(!halfDayLeaves)}
             className={`ml-4 relative w-12 h-6 rounded-full transition-all ${
-              preferLonger ? 'bg-primary' : 'bg-switch-background'
+              halfDayLeaves ? 'bg-primary' : 'bg-switch-background'
             }`}
           >
             <div
               className={`absolute top-0.5 w-5 h-5 bg-white rounded-full shadow-sm transition-transform ${
-                preferLonger ? 'translate-x-6' : 'translate-x-0.5'
+                halfDayLeaves ? 'translate-x-6' : 'translate-x-0.5'
               }`}
             />
           </button>
         </div>
 
-        {/* Max Continuous Leaves */}
+        {/* Scoring Profile */}
         <div className="p-4 bg-muted/30 rounded-xl">
+          <div className="flex items-center gap-2 mb-1">
+            <label>What Makes a Good Break</label>
+            <div className="relative">
+              <button
+                onMouseEnter={() => setShowTooltip('scoring')}
+                onMouseLeave={() => setShowTooltip(null)}
+                className="text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <Info className="w-4 h-4" />
+              </button>
+              {showTooltip === 'scoring' && (
+                <div className="absolute left-0 top-6 w-64 bg-popover text-popover-foreground p-3 rounded-lg shadow-lg border border-border z-10 text-sm">
+                  At 0% every plan is judged by total days off alone. Raise a weight to trade some days off for what matters to you.
+                </div>
+              )}
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground mb-4">
+            Weigh the plan beyond its total days off
+          </p>
+          <div className="space-y-4">
+            <WeightSlider
+              label="Efficiency"
+              hint="Only spend leave where it buys many days off"
+              value={scoringProfile.efficiency}
+              onChange={(efficiency) => onScoringProfileChange({ ...scoringProfile, efficiency })}
+            />
+            <WeightSlider
+              label="Break length"
+              hint="Favour fewer, longer vacations over long weekends"
+              value={scoringProfile.length}
+              onChange={(length) => onScoringProfileChange({ ...scoringProfile, length })}
+            />
+            <WeightSlider
+              label="Spacing"
+              hint="Spread breaks evenly across the year"
+              value={scoringProfile.spacing}
+              onChange={(spacing) => onScoringProfileChange({ ...scoringProfile, spacing })}
+            />
+            <WeightSlider
+              label="Seasonality"
+              hint="Favour the months you like, avoid the ones you don't"
+              value={scoringProfile.seasonality}
+              onChange={(seasonality) => onScoringProfileChange({ ...scoringProfile, seasonality })}
+            />
+            <div className="grid grid-cols-6 gap-1">
+              {MONTHS.map((month, index) => {
+                const preference = scoringProfile.monthPreferences[index];
+                return (
+                  <button
+                    key={month}
+                    onClick={() => cycleMonth(index)}
+                    title="Click to cycle: neutral, liked, disliked"
+                    className={`py-1 rounded text-xs border transition-colors ${
+                      preference > 0
+                        ? 'bg-secondary/15 border-secondary text-secondary'
+                        : preference < 0
+                          ? 'bg-destructive/10 border-destructive/40 text-destructive line-through'
+                          : 'bg-white border-border text-muted-foreground'
+                    }`}
+                  >
+                    {month}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+
+        {/* Weekend Breaks */}
+        <div className="flex items-start justify-between p-4 bg-muted/30 rounded-xl">
           <div className="flex-1">
             <div className="flex items-center gap-2 mb-1">
-              <label>Max Continuous Leaves</label>
+              <label>Use Leftover Leaves on Weekend Breaks</label>
               <div className="relative">
                 <button
-                  onMouseEnter={() => setShowTooltip('maxLeaves')}
+                  onMouseEnter={() => setShowTooltip('weekend')}
                   onMouseLeave={() => setShowTooltip(null)}
                   className="text-muted-foreground hover:text-foreground transition-colors"
                 >
                   <Info className="w-4 h-4" />
                 </button>
-                {showTooltip === 'maxLeaves' && (
+                {showTooltip === 'weekend' && (
                   <div className="absolute left-0 top-6 w-64 bg-popover text-popover-foreground p-3 rounded-lg shadow-lg border border-border z-10 text-sm">
-                    Maximum number of consecutive working days you can take as leave. This helps optimize recommendations based on your company policy.
+                    Once holiday bridges are planned, spend any remaining balance on breaks attached to weekends, even in months without company holidays.
                   </div>
                 )}
               </div>
             </div>
-            <p className="text-xs text-muted-foreground mb-3">
-              Maximum consecutive working-day leaves allowed
+            <p className="text-xs text-muted-foreground">
+              Suggest weekend-bridged breaks that aren't tied to a holiday
             </p>
-            <div className="flex items-center gap-3">
-              <button
-                onClick={() => onMaxContinuousLeavesChange(Math.max(1, maxContinuousLeaves - 1))}
-                className="w-10 h-10 rounded-lg bg-white border border-border hover:bg-muted transition-all hover:scale-105 flex items-center justify-center"
-              >
-                <Minus className="w-4 h-4" />
-              </button>
-              <div className="flex-1 text-center p-3 rounded-lg bg-white border-2 border-primary">
-                <span className="text-2xl">{maxContinuousLeaves}</span>
-                <span className="text-sm text-muted-foreground ml-1">days</span>
-              </div>
-              <button
-                onClick={() => onMaxContinuousLeavesChange(maxContinuousLeaves + 1)}
-                className="w-10 h-10 rounded-lg bg-white border border-border hover:bg-muted transition-all hover:scale-105 flex items-center justify-center"
-              >
-                <Plus className="w-4 h-4" />
-              </button>
-            </div>
           </div>
+          <button
+            onClick={() => onWeekendBreaksChange(!weekendBreaks)}
+            className={`ml-4 relative w-12 h-6 rounded-full transition-all ${
+              weekendBreaks ? 'bg-primary' : 'bg-switch-background'
+            }`}
+          >
+            <div
+              className={`absolute top-0.5 w-5 h-5 bg-white rounded-full shadow-sm transition-transform ${
+                weekendBreaks ? 'translate-x-6' : 'translate-x-0.5'
+              }`}
+            />
+          </button>
         </div>
+
+        {/* Max Continuous Leaves */}
+        <PreferenceStepper
+          label="Max Continuous Leaves"
+          tooltip="Maximum number of consecutive working days you can take as leave. This helps optimize recommendations based on your company policy."
+          description="Maximum consecutive working-day leaves allowed"
+          value={maxContinuousLeaves}
+          min={1}
+          onChange={onMaxContinuousLeavesChange}
+        />
+
+        {/* Holiday Anchor Window */}
+        <PreferenceStepper
+          label="Holiday Anchor Window"
+          tooltip="A leave block only counts as a holiday bridge if one of its leave days is at most this many days away from a company holiday."
+          description="How far a leave day may be from the holiday it bridges"
+          value={anchorWindow}
+          min={1}
+          onChange={onAnchorWindowChange}
+        />
+
+        {/* Bridge Search Radius */}
+        <PreferenceStepper
+          label="Bridge Search Radius"
+          tooltip="Holidays at most this many days apart are also planned as one combined break, e.g. Holi and Good Friday in the same fortnight."
+          description="Merge nearby holidays into one multi-holiday break"
+          value={bridgeRadius}
+          min={0}
+          onChange={onBridgeRadiusChange}
+        />
+
+        {/* Minimum Gap Between Breaks */}
+        <PreferenceStepper
+          label="Minimum Gap Between Breaks"
+          tooltip="Keep at least this many working days between two breaks so they don't bunch up, e.g. three breaks back to back in November and December."
+          description="Working days required between two breaks (1 = no extra gap)"
+          value={minGapWorkingDays}
+          min={1}
+          onChange={onMinGapWorkingDaysChange}
+        />
+
+        {/* Breaks per Quarter */}
+        <PreferenceStepper
+          label="Breaks per Quarter"
+          tooltip="Plan at least this many breaks in every quarter. Turn on weekend breaks so quarters without holidays can be covered too."
+          description="Minimum breaks in each quarter (0 = no target)"
+          value={minBreaksPerQuarter}
+          min={0}
+          unit="breaks"
+          onChange={onMinBreaksPerQuarterChange}
+        />
+
+        {/* Max Leaves per Month */}
+        <PreferenceStepper
+          label="Max Leaves per Month"
+          tooltip="Never charge more than this many leave days, sandwiched days included, in a single calendar month."
+          description="Monthly leave limit (0 = no limit)"
+          value={maxLeavesPerMonth}
+          min={0}
+          onChange={onMaxLeavesPerMonthChange}
+        />
       </div>
     </div>
   );
@@ -1,22 +1,34 @@
-import { Calendar, Plane, Check, ChevronLeft, ChevronRight, Sparkles } from 'lucide-react';
-import { format, isSameDay, isWeekend, startOfMonth, endOfMonth, eachDayOfInterval, startOfDay, isAfter, isBefore } from 'date-fns';
+import { Calendar, Plane, Check, ChevronLeft, ChevronRight, Sparkles, Wallet } from 'lucide-react';
+import { format, isSameDay, startOfMonth, endOfMonth, eachDayOfInterval, startOfDay, isAfter, isBefore } from 'date-fns';
 import { OptimizationResult } from '../utils/optimizer';
+import { WorkWeek } from '../utils/workWeek';
+import { assignPlan, buildCalendarModel, getCalendarDay, Holiday } from '../utils/calendarModel';
 import { motion } from 'motion/react';
-import { useState } from 'react';
+import { Fragment, useState } from 'react';
 
 interface ResultsSectionProps {
   result: OptimizationResult;
-  holidays: Date[];
+  holidays: Holiday[];
+  halfDayHolidays: Holiday[];
+  /** restricted holidays the plan may or may not take */
+  optionalHolidays: Holiday[];
+  workWeek: WorkWeek;
   currentMonth: Date;
   onMonthChange: (delta: number) => void;
   selectedRecommendationId: number | null;
 }
 
-export function ResultsSection({ result, holidays, currentMonth, onMonthChange, selectedRecommendationId }: ResultsSectionProps) {
+export function ResultsSection({ result, holidays, halfDayHolidays, optionalHolidays, workWeek, currentMonth, onMonthChange, selectedRecommendationId }: ResultsSectionProps) {
   const [hoveredDay, setHoveredDay] = useState<Date | null>(null);
   const monthStart = startOfMonth(currentMonth);
   const monthEnd = endOfMonth(currentMonth);
   const monthDays = eachDayOfInterval({ start: monthStart, end: monthEnd });
+  // balances are listed per leave year once the plan spans more than one
+  const multiYear = new Set(result.poolBalances.map(b => b.leaveYear)).size > 1;
+  const calendar = assignPlan(
+    buildCalendarModel({ holidays, halfDayHolidays, optionalHolidays, workWeek }),
+    result
+  );
 
   // Get the selected recommendation if any
   const selectedRecommendation = selectedRecommendationId !== null 
@@ -37,12 +49,28 @@ export function ResultsSection({ result, holidays, currentMonth, onMonthChange,
   };
 
   const getDayType = (day: Date) => {
-    if (result.optimizedLeaves.some(d => isSameDay(d, day))) return 'leave';
-    if (holidays.some(h => isSameDay(h, day))) return 'holiday';
-    if (isWeekend(day)) return 'weekend';
-    return 'workday';
+    const { type, leave } = getCalendarDay(calendar, day);
+    if (leave?.kind === 'leave' || leave?.kind === 'half-leave') return leave.kind;
+    if (type === 'holiday') return 'holiday';
+    if (leave?.kind === 'optional') return 'optional';
+    // a restricted holiday the plan skips is a working day
+    if (type === 'optional') return 'workday';
+    return type;
   };
 
+  // days off (whole or in part) rather than plain weekends or working days
+  const isMarked = (dayType: string) => dayType !== 'weekend' && dayType !== 'workday';
+
+  // restricted holidays the plan leaves as working days
+  const isSkippedOptional = (day: Date) => {
+    const { type, leave } = getCalendarDay(calendar, day);
+    return type === 'optional' && leave?.kind !== 'optional';
+  };
+  const isLeave = (dayType: string) => dayType === 'leave' || dayType === 'half-leave';
+
+  const isSandwichDay = (day: Date) =>
+    getCalendarDay(calendar, day).leave?.kind === 'sandwich';
+
   const getDayHighlightState = (day: Date): 'active' | 'inactive' | null => {
     if (!selectedRecommendation) return null;
     
@@ -52,7 +80,7 @@ export function ResultsSection({ result, holidays, currentMonth, onMonthChange,
     
     // Dim days that are not part of the selected recommendation
     const dayType = getDayType(day);
-    if (dayType === 'leave' || dayType === 'holiday') {
+    if (isMarked(dayType)) {
       return 'inactive';
     }
     
@@ -62,7 +90,10 @@ export function ResultsSection({ result, holidays, currentMonth, onMonthChange,
   const getDayLabel = (dayType: string) => {
     switch (dayType) {
       case 'holiday': return 'Company Holiday';
+      case 'half-holiday': return 'Half-day Holiday (office closes at noon)';
+      case 'optional': return 'Restricted Holiday (taken)';
       case 'leave': return 'Suggested Leave';
+      case 'half-leave': return 'Suggested Half-day Leave (half-day holiday)';
       case 'weekend': return 'Weekend';
       default: return 'Working Day';
     }
@@ -123,9 +154,57 @@ export function ResultsSection({ result, holidays, currentMonth, onMonthChange,
           </div>
           <div className="text-4xl mb-2">{result.leavesRemaining}</div>
           <p className="text-sm opacity-90">Leaves Still Available</p>
+          {result.poolBalances.length > 1 && (
+            <p className="text-xs opacity-80 mt-1">
+              {result.poolBalances
+                .map(b => `${b.label}${multiYear ? ` ${b.leaveYear}` : ''}: ${b.remaining}`)
+                .join(' · ')}
+            </p>
+          )}
         </motion.div>
       </div>
 
+      {/* Year-end Balance */}
+      {result.poolBalances.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.35 }}
+          className="bg-white rounded-2xl shadow-sm p-8"
+        >
+          <div className="flex items-center gap-3 mb-6">
+            <div className="bg-primary/5 p-2 rounded-lg">
+              <Wallet className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <h3>Year-end Balance</h3>
+              <p className="text-sm text-muted-foreground">What happens to the leave this plan doesn't use</p>
+            </div>
+          </div>
+          <div className="grid grid-cols-5 gap-3 text-sm">
+            <div className="text-xs text-muted-foreground">Leave type</div>
+            <div className="text-xs text-muted-foreground text-center">Unused</div>
+            <div className="text-xs text-muted-foreground text-center">Carried forward</div>
+            <div className="text-xs text-muted-foreground text-center">Encashed</div>
+            <div className="text-xs text-muted-foreground text-center">Lost</div>
+            {result.poolBalances.map(b => (
+              <Fragment key={`${b.poolId}-${b.leaveYear}`}>
+                <div>
+                  {b.label}
+                  {multiYear && <span className="block text-xs text-muted-foreground">{b.leaveYear}</span>}
+                </div>
+                <div className="text-center">{b.remaining}</div>
+                <div className="text-center text-primary">{b.carriedForward}</div>
+                <div className="text-center text-secondary">{b.encashed}</div>
+                <div className={`text-center ${b.lapsed > 0 ? 'text-destructive' : 'text-muted-foreground'}`}>
+                  {b.lapsed}
+                </div>
+              </Fragment>
+            ))}
+          </div>
+        </motion.div>
+      )}
+
       {/* Calendar View */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -134,7 +213,12 @@ export function ResultsSection({ result, holidays, currentMonth, onMonthChange,
         className="bg-white rounded-2xl shadow-sm p-8"
       >
         <div className="flex items-center justify-between mb-8">
-          <h3>Optimized Leave Plan</h3>
+          <div className="flex items-center gap-3">
+            <h3>Optimized Leave Plan</h3>
+            <span className="bg-muted px-2.5 py-0.5 rounded-full text-xs text-muted-foreground">
+              {result.solver === 'exact' ? 'Proven optimal' : 'Best effort'}
+            </span>
+          </div>
           <div className="flex items-center gap-2">
             <button
               onClick={() => onMonthChange(-1)}
@@ -166,6 +250,18 @@ export function ResultsSection({ result, holidays, currentMonth, onMonthChange,
             <div className="w-4 h-4 rounded bg-muted" />
             <span>Weekend</span>
           </div>
+          {halfDayHolidays.length > 0 && (
+            <>
+              <div className="flex items-center gap-2">
+                <div className="w-4 h-4 rounded bg-gradient-to-br from-primary from-50% to-white to-50% border border-border" />
+                <span>Half-day Holiday</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-4 h-4 rounded bg-gradient-to-br from-primary from-50% to-secondary to-50%" />
+                <span>Half-day Leave</span>
+              </div>
+            </>
+          )}
         </div>
 
         {/* Calendar Grid */}
@@ -187,10 +283,15 @@ export function ResultsSection({ result, holidays, currentMonth, onMonthChange,
             
             // Determine base styles
             let baseStyles = '';
-            if (dayType === 'holiday') {
+            if (dayType === 'holiday' || dayType === 'optional') {
               baseStyles = 'bg-gradient-to-br from-primary to-primary/80 text-primary-foreground shadow-md hover:shadow-lg';
             } else if (dayType === 'leave') {
               baseStyles = 'bg-gradient-to-br from-secondary to-secondary/80 text-secondary-foreground shadow-md hover:shadow-lg';
+            } else if (dayType === 'half-leave') {
+              // morning off as leave, afternoon off as the holiday
+              baseStyles = 'bg-gradient-to-br from-primary from-50% to-secondary to-50% text-primary-foreground shadow-md hover:shadow-lg';
+            } else if (dayType === 'half-holiday') {
+              baseStyles = 'bg-gradient-to-br from-primary/70 from-50% to-white to-50% border border-border hover:shadow-sm';
             } else if (dayType === 'weekend') {
               baseStyles = 'bg-muted/50 text-muted-foreground hover:bg-muted';
             } else {
@@ -217,24 +318,34 @@ export function ResultsSection({ result, holidays, currentMonth, onMonthChange,
                   <div className="text-center relative z-10">{format(day, 'd')}</div>
                   
                   {/* Icon indicator */}
-                  {dayType === 'holiday' && (
+                  {(dayType === 'holiday' || dayType === 'optional') && (
                     <div className="absolute top-1 right-1">
                       <Calendar className="w-3 h-3 opacity-60" />
                     </div>
                   )}
-                  {dayType === 'leave' && (
+                  {isLeave(dayType) && (
                     <div className="absolute top-1 right-1">
                       <Sparkles className="w-3 h-3 opacity-60" />
                     </div>
                   )}
+                  {(dayType === 'half-leave' || dayType === 'half-holiday') && (
+                    <div className="absolute top-0.5 left-1 text-[9px] opacity-80">½</div>
+                  )}
                   
+                  {isSandwichDay(day) && (
+                    <div className="absolute inset-0 rounded-xl border-2 border-dashed border-secondary pointer-events-none" />
+                  )}
+                  {(dayType === 'optional' || isSkippedOptional(day)) && (
+                    <div className="absolute inset-0 rounded-xl border-2 border-dashed border-primary/60 pointer-events-none" />
+                  )}
+
                   {/* Gradient overlay on hover */}
-                  {(dayType === 'holiday' || dayType === 'leave') && (
+                  {isMarked(dayType) && (
                     <div className="absolute inset-0 bg-white opacity-0 group-hover:opacity-10 transition-opacity" />
                   )}
                   
                   {/* Decorative dot */}
-                  {(dayType === 'holiday' || dayType === 'leave') && (
+                  {isMarked(dayType) && (
                     <div className="absolute bottom-1 left-1/2 -translate-x-1/2 w-1 h-1 bg-current rounded-full opacity-60" />
                   )}
                 </motion.div>
@@ -247,7 +358,16 @@ export function ResultsSection({ result, holidays, currentMonth, onMonthChange,
                     className="absolute z-20 left-1/2 -translate-x-1/2 top-full mt-2 bg-popover text-popover-foreground px-3 py-2 rounded-lg shadow-lg border border-border whitespace-nowrap text-xs"
                   >
                     <div className="font-medium">{format(day, 'EEEE, MMM dd')}</div>
+                    {getCalendarDay(calendar, day).holidayName && (
+                      <div className="mt-0.5">{getCalendarDay(calendar, day).holidayName}</div>
+                    )}
                     <div className="text-muted-foreground mt-0.5">{getDayLabel(dayType)}</div>
+                    {isSandwichDay(day) && (
+                      <div className="text-secondary mt-0.5">Counted as leave (sandwich rule)</div>
+                    )}
+                    {isSkippedOptional(day) && (
+                      <div className="text-muted-foreground mt-0.5">Restricted holiday (not taken)</div>
+                    )}
                   </motion.div>
                 )}
               </div>
@@ -1,15 +1,111 @@
-import { Calendar, Plane, Download } from 'lucide-react';
-import { format, isWeekend, isSameDay, eachDayOfInterval, startOfDay } from 'date-fns';
-import { OptimizationResult } from '../utils/optimizer';
+import { useState } from 'react';
+import { Calendar, CalendarPlus, Plane, Download, Ban, Pin, AlertTriangle, ChevronDown, HelpCircle, ExternalLink } from 'lucide-react';
+import { format, isSameDay, eachDayOfInterval, startOfDay, isWithinInterval } from 'date-fns';
+import { OptimizationResult, RejectedOpportunity } from '../utils/optimizer';
+import { WorkWeek } from '../utils/workWeek';
+import { assignPlan, buildCalendarModel, getCalendarDay, Holiday } from '../utils/calendarModel';
+import {
+  buildCalendar,
+  CalendarEvent,
+  downloadICS,
+  exportPlanToICS,
+  getBreakEvent,
+  getGoogleCalendarUrl,
+  getLeaveDayEvents,
+  getOutlookCalendarUrl,
+} from '../utils/icsExport';
 import { motion, AnimatePresence } from 'motion/react';
 
 interface SuggestionsPanelProps {
   result: OptimizationResult;
+  holidays: Holiday[];
+  halfDayHolidays: Holiday[];
+  /** restricted holidays the plan may or may not take */
+  optionalHolidays: Holiday[];
+  workWeek: WorkWeek;
   onViewDetails: (id: number | null) => void;
   selectedRecommendationId: number | null;
 }
 
-export function SuggestionsPanel({ result, onViewDetails, selectedRecommendationId }: SuggestionsPanelProps) {
+const KIND_BADGES = {
+  holiday: { label: 'Holiday bridge', className: 'bg-primary/10 text-primary' },
+  weekend: { label: 'Weekend break', className: 'bg-muted text-muted-foreground' },
+  pinned: { label: 'Pinned', className: 'bg-accent/20 text-accent-foreground' },
+};
+
+/** why a block around a holiday wasn't suggested */
+function describeRejection(r: RejectedOpportunity) {
+  switch (r.reason) {
+    case 'overlap':
+      return `Overlaps the ${format(r.clashesWith!.startDate, 'MMM dd')} break`;
+    case 'min-gap':
+      return `Too close to the ${format(r.clashesWith!.startDate, 'MMM dd')} break`;
+    case 'budget':
+      return 'Not enough leave left';
+    case 'monthly-cap':
+      return 'Would go over your monthly leave limit';
+    case 'max-consecutive':
+      return 'More consecutive leaves than allowed';
+    case 'no-anchor':
+      return 'Leave days too far from the holiday';
+    case 'blocked':
+      return `Runs into ${r.period?.label ?? 'a blocked date'}`;
+    case 'low-score':
+      return 'Scores lower under your preferences';
+  }
+}
+
+/** considered blocks per holiday, in date order */
+function groupByHoliday(rejected: RejectedOpportunity[]) {
+  const groups = new Map<string, RejectedOpportunity[]>();
+  for (const r of rejected) {
+    const key = format(r.holiday, 'yyyy-MM-dd');
+    groups.set(key, [...(groups.get(key) ?? []), r]);
+  }
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, entries]) => ({
+      key,
+      holiday: entries[0].holiday,
+      entries: [...entries].sort((a, b) => b.totalDays - a.totalDays),
+    }));
+}
+
+export function SuggestionsPanel({
+  result,
+  holidays,
+  halfDayHolidays,
+  optionalHolidays,
+  workWeek,
+  onViewDetails,
+  selectedRecommendationId,
+}: SuggestionsPanelProps) {
+  const [openHoliday, setOpenHoliday] = useState<string | null>(null);
+  const [calendarMenu, setCalendarMenu] = useState<number | null>(null);
+  const [leaveDaysOnly, setLeaveDaysOnly] = useState(false);
+  const considered = groupByHoliday(result.rejected);
+  const blockedBridges = result.rejected.filter(r => r.reason === 'blocked' && r.leaveDates.length === 0);
+  const calendar = assignPlan(
+    buildCalendarModel({ holidays, halfDayHolidays, optionalHolidays, workWeek }),
+    result
+  );
+
+  const handleExport = () => {
+    const [first] = result.recommendations;
+    downloadICS(exportPlanToICS(result), `leave-plan-${format(first.startDate, 'yyyy')}.ics`);
+  };
+
+  const handleDownloadEvents = (events: CalendarEvent[], start: Date) => {
+    downloadICS(buildCalendar(events), `leave-${format(start, 'yyyy-MM-dd')}.ics`);
+    setCalendarMenu(null);
+  };
+
+  // e.g. "Jan 27–29"; only needed when the leave days split into several events
+  const describeEvent = (event: CalendarEvent) =>
+    format(event.start, 'MMM dd') === format(event.end, 'MMM dd')
+      ? format(event.start, 'MMM dd')
+      : `${format(event.start, 'MMM dd')}–${format(event.end, 'MMM dd')}`;
+
   return (
     <div className="bg-white rounded-2xl shadow-sm p-8">
       <div className="flex items-center justify-between mb-8">
@@ -17,7 +113,12 @@ export function SuggestionsPanel({ result, onViewDetails, selectedRecommendation
           <h3>Detailed Recommendations</h3>
           <p className="text-sm text-muted-foreground">Optimized leave suggestions for maximum vacation time</p>
         </div>
-        <button className="flex items-center gap-2 px-4 py-2 bg-muted hover:bg-muted/80 rounded-lg transition-colors text-sm">
+        <button
+          onClick={handleExport}
+          disabled={result.recommendations.length === 0}
+          title="Download the plan as an .ics file for Google Calendar, Outlook or Apple Calendar"
+          className="flex items-center gap-2 px-4 py-2 bg-muted hover:bg-muted/80 rounded-lg transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
           <Download className="w-4 h-4" />
           Export
         </button>
@@ -26,13 +127,19 @@ export function SuggestionsPanel({ result, onViewDetails, selectedRecommendation
       <div className="space-y-6">
         {result.recommendations.map((rec, index) => {
           const isExpanded = selectedRecommendationId === index;
+          // the whole break, or out-of-office events for just the leave days
+          const events = leaveDaysOnly && rec.leaveDates.length > 0
+            ? getLeaveDayEvents(rec)
+            : [getBreakEvent(rec)];
           const allDates = eachDayOfInterval({ 
             start: startOfDay(rec.startDate), 
             end: startOfDay(rec.endDate) 
           });
-          const leaveDatesSet = new Set(
-            rec.leaveDates.map(d => format(startOfDay(d), 'yyyy-MM-dd'))
-          );
+          // blocks around this break's holidays that lost out to it
+          const passedOver = result.rejected.filter(r =>
+            r.leaveDates.length > 0 &&
+            isWithinInterval(r.holiday, { start: rec.startDate, end: rec.endDate })
+          ).length;
 
           return (
             <motion.div
@@ -40,17 +147,30 @@ export function SuggestionsPanel({ result, onViewDetails, selectedRecommendation
               initial={{ opacity: 0, x: -20 }}
               animate={{ opacity: 1, x: 0 }}
               transition={{ delay: index * 0.1 }}
-              className="p-6 rounded-xl border border-border hover:border-primary/30 transition-all hover:shadow-md group"
+              className={`p-6 rounded-xl border transition-all hover:shadow-md group ${
+                rec.kind === 'pinned'
+                  ? 'border-accent/50 bg-accent/5'
+                  : 'border-border hover:border-primary/30'
+              }`}
             >
               <div className="flex items-start gap-4">
                 <div className="bg-primary/10 p-3 rounded-lg group-hover:bg-primary group-hover:text-white transition-all">
-                  <Calendar className="w-5 h-5 text-primary group-hover:text-white" />
+                  {rec.kind === 'pinned' ? (
+                    <Pin className="w-5 h-5 text-primary group-hover:text-white" />
+                  ) : (
+                    <Calendar className="w-5 h-5 text-primary group-hover:text-white" />
+                  )}
                 </div>
                 
                 <div className="flex-1">
                   <div className="flex items-start justify-between mb-2">
                     <div>
-                      <h4 className="mb-1">Vacation #{index + 1}</h4>
+                      <div className="flex items-center gap-2 mb-1">
+                        <h4>{rec.kind === 'pinned' ? rec.label : `Vacation #${index + 1}`}</h4>
+                        <span className={`px-2 py-0.5 rounded-full text-xs ${KIND_BADGES[rec.kind].className}`}>
+                          {KIND_BADGES[rec.kind].label}
+                        </span>
+                      </div>
                       <p className="text-sm text-muted-foreground">
                         {format(rec.startDate, 'MMM dd')} - {format(rec.endDate, 'MMM dd, yyyy')}
                       </p>
@@ -64,7 +184,9 @@ export function SuggestionsPanel({ result, onViewDetails, selectedRecommendation
                     <div className="flex items-center gap-1">
                       <div className="w-3 h-3 rounded-full bg-secondary" />
                       <span className="text-muted-foreground">
-                        {rec.leavesUsed} leave{rec.leavesUsed > 1 ? 's' : ''} required
+                        {rec.leavesUsed > 0
+                          ? `${rec.leavesUsed} leave${rec.leavesUsed > 1 ? 's' : ''} required`
+                          : 'No leave required'}
                       </span>
                     </div>
                     <div className="flex items-center gap-1">
@@ -79,10 +201,77 @@ export function SuggestionsPanel({ result, onViewDetails, selectedRecommendation
                     {rec.description}
                   </p>
 
+                  {rec.kind !== 'pinned' && (
+                    <p className="flex items-center gap-1.5 text-xs text-muted-foreground mb-3">
+                      <HelpCircle className="w-3.5 h-3.5" />
+                      Why this one: {rec.totalDays} days off for {rec.leavesUsed} leave{rec.leavesUsed > 1 ? 's' : ''}
+                      {passedOver > 0 && `, chosen over ${passedOver} other option${passedOver > 1 ? 's' : ''} around this holiday`}
+                    </p>
+                  )}
+
                   <div className="flex items-center gap-2">
-                    <button className="px-3 py-1.5 bg-primary text-primary-foreground rounded-lg text-sm hover:bg-primary/90 transition-colors">
-                      Add to Calendar
-                    </button>
+                    <div className="relative">
+                      <button
+                        onClick={() => setCalendarMenu(calendarMenu === index ? null : index)}
+                        className="flex items-center gap-1.5 px-3 py-1.5 bg-primary text-primary-foreground rounded-lg text-sm hover:bg-primary/90 transition-colors"
+                      >
+                        <CalendarPlus className="w-4 h-4" />
+                        Add to Calendar
+                        <ChevronDown className={`w-3.5 h-3.5 transition-transform ${calendarMenu === index ? 'rotate-180' : ''}`} />
+                      </button>
+
+                      {calendarMenu === index && (
+                        <div className="absolute z-20 left-0 top-full mt-2 w-72 bg-popover text-popover-foreground rounded-lg shadow-lg border border-border p-2 text-sm">
+                          <button
+                            onClick={() => handleDownloadEvents(events, rec.startDate)}
+                            className="w-full flex items-center gap-2 px-3 py-2 rounded-md hover:bg-muted transition-colors text-left"
+                          >
+                            <Download className="w-4 h-4 text-muted-foreground" />
+                            Download .ics
+                            {events.length > 1 && (
+                              <span className="ml-auto text-xs text-muted-foreground">{events.length} events</span>
+                            )}
+                          </button>
+                          {events.map(event => (
+                            <div key={event.uid}>
+                              {events.length > 1 && (
+                                <div className="px-3 pt-2 text-xs text-muted-foreground">{describeEvent(event)}</div>
+                              )}
+                              {[
+                                { label: 'Google Calendar', href: getGoogleCalendarUrl(event) },
+                                { label: 'Outlook (work)', href: getOutlookCalendarUrl(event, 'work') },
+                                { label: 'Outlook.com', href: getOutlookCalendarUrl(event, 'personal') },
+                              ].map(link => (
+                                <a
+                                  key={link.label}
+                                  href={link.href}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  onClick={() => setCalendarMenu(null)}
+                                  className="flex items-center gap-2 px-3 py-2 rounded-md hover:bg-muted transition-colors"
+                                >
+                                  <ExternalLink className="w-4 h-4 text-muted-foreground" />
+                                  {link.label}
+                                </a>
+                              ))}
+                            </div>
+                          ))}
+                          <label
+                            className={`flex items-center gap-2 px-3 py-2 mt-1 border-t border-border text-xs ${
+                              rec.leaveDates.length === 0 ? 'opacity-50' : 'cursor-pointer'
+                            }`}
+                          >
+                            <input
+                              type="checkbox"
+                              checked={leaveDaysOnly}
+                              disabled={rec.leaveDates.length === 0}
+                              onChange={(e) => setLeaveDaysOnly(e.target.checked)}
+                            />
+                            Only the leave days, as out-of-office events
+                          </label>
+                        </div>
+                      )}
+                    </div>
                     <button 
                       onClick={() => onViewDetails(isExpanded ? null : index)}
                       className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
@@ -110,8 +299,12 @@ export function SuggestionsPanel({ result, onViewDetails, selectedRecommendation
                           <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-3">
                             {allDates.map((date, dateIndex) => {
                               const normalizedDate = startOfDay(date);
-                              const isLeaveDay = leaveDatesSet.has(format(normalizedDate, 'yyyy-MM-dd'));
-                              const isWeekendDay = isWeekend(normalizedDate);
+                              const { type, holidayName, leave } = getCalendarDay(calendar, normalizedDate);
+                              const isLeaveDay = leave?.kind === 'leave' || leave?.kind === 'half-leave';
+                              const isWeekendDay = type === 'weekend';
+                              const poolLabel = leave?.poolId
+                                ? result.poolBalances.find(b => b.poolId === leave.poolId)?.label
+                                : undefined;
                               
                               return (
                                 <motion.div
@@ -138,7 +331,12 @@ export function SuggestionsPanel({ result, onViewDetails, selectedRecommendation
                                   </div>
                                   {isLeaveDay && (
                                     <div className="mt-1.5 text-xs font-bold text-secondary-foreground">
-                                      Leave
+                                      {leave?.kind === 'half-leave' ? 'Half-day leave' : 'Leave'}
+                                    </div>
+                                  )}
+                                  {poolLabel && result.poolBalances.length > 1 && (
+                                    <div className="mt-0.5 text-[10px] text-foreground/70">
+                                      {poolLabel}
                                     </div>
                                   )}
                                   {isWeekendDay && !isLeaveDay && (
@@ -148,9 +346,21 @@ export function SuggestionsPanel({ result, onViewDetails, selectedRecommendation
                                   )}
                                   {!isLeaveDay && !isWeekendDay && (
                                     <div className="mt-1.5 text-xs font-semibold text-primary-foreground">
-                                      Holiday
+                                      {leave?.kind === 'optional'
+                                        ? 'Restricted'
+                                        : type === 'half-holiday'
+                                        ? 'Half-day holiday'
+                                        : 'Holiday'}
                                     </div>
                                   )}
+                                  {holidayName && (
+                                    <div className="mt-0.5 text-[10px] text-foreground/70 truncate" title={holidayName}>
+                                      {holidayName}
+                                    </div>
+                                  )}
+                                  {leave?.kind === 'sandwich' && (
+                                    <div className="mt-0.5 text-[10px] text-secondary">Counted as leave</div>
+                                  )}
                                 </motion.div>
                               );
                             })}
@@ -175,6 +385,126 @@ export function SuggestionsPanel({ result, onViewDetails, selectedRecommendation
             </p>
           </div>
         )}
+
+        {result.unmetConstraints.length > 0 && (
+          <div className="p-4 rounded-xl bg-accent/10 border border-accent/30">
+            <div className="flex items-center gap-2 mb-2 text-sm">
+              <AlertTriangle className="w-4 h-4 text-accent" />
+              <span>Distribution rules this plan couldn't meet</span>
+            </div>
+            <ul className="space-y-1 text-xs text-muted-foreground">
+              {result.unmetConstraints.map((message, i) => (
+                <li key={i}>{message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {result.unfundedPins.length > 0 && (
+          <div className="p-4 rounded-xl bg-destructive/5 border border-destructive/20">
+            <div className="flex items-center gap-2 mb-2 text-sm">
+              <Pin className="w-4 h-4 text-destructive" />
+              <span>Pinned dates your balance can't cover</span>
+            </div>
+            <ul className="space-y-1 text-xs text-muted-foreground">
+              {result.unfundedPins.map((pin, i) => (
+                <li key={i}>
+                  {pin.label} ({format(pin.start, 'MMM dd')}
+                  {!isSameDay(pin.start, pin.end) && ` - ${format(pin.end, 'MMM dd')}`})
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {result.offDayPins.length > 0 && (
+          <div className="p-4 rounded-xl bg-muted/50 border border-border">
+            <div className="flex items-center gap-2 mb-2 text-sm">
+              <Pin className="w-4 h-4 text-muted-foreground" />
+              <span>Pinned dates that are already off</span>
+            </div>
+            <p className="text-xs text-muted-foreground mb-1">
+              These fall entirely on weekends and holidays, so no leave is needed.
+            </p>
+            <ul className="space-y-1 text-xs text-muted-foreground">
+              {result.offDayPins.map((pin, i) => (
+                <li key={i}>
+                  {pin.label} ({format(pin.start, 'MMM dd')}
+                  {!isSameDay(pin.start, pin.end) && ` - ${format(pin.end, 'MMM dd')}`})
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {blockedBridges.length > 0 && (
+          <div className="p-4 rounded-xl bg-destructive/5 border border-destructive/20">
+            <div className="flex items-center gap-2 mb-2 text-sm">
+              <Ban className="w-4 h-4 text-destructive" />
+              <span>Bridges limited by blocked dates</span>
+            </div>
+            <ul className="space-y-1 text-xs text-muted-foreground">
+              {blockedBridges.map(({ holiday, period }, i) => period && (
+                <li key={i}>
+                  {format(holiday, 'EEE, MMM dd')} — {period.label} (
+                  {format(period.start, 'MMM dd')}
+                  {!isSameDay(period.start, period.end) &&
+                    ` - ${format(period.end, 'MMM dd')}`}
+                  , {period.kind === 'blackout' ? 'no leave' : 'must be in office'})
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {considered.length > 0 && (
+          <div className="pt-6 border-t border-border">
+            <h4 className="mb-1">Alternatives Considered</h4>
+            <p className="text-sm text-muted-foreground mb-4">
+              Other breaks around each holiday and why they weren't suggested
+            </p>
+            <div className="space-y-2">
+              {considered.map(({ key, holiday, entries }) => (
+                <div key={key} className="rounded-xl border border-border">
+                  <button
+                    onClick={() => setOpenHoliday(openHoliday === key ? null : key)}
+                    className="w-full flex items-center justify-between px-4 py-3 text-sm hover:bg-muted/30 transition-colors rounded-xl"
+                  >
+                    <span>{format(holiday, 'EEE, MMM dd, yyyy')}</span>
+                    <span className="flex items-center gap-2 text-muted-foreground">
+                      {entries.length} option{entries.length > 1 ? 's' : ''}
+                      <ChevronDown
+                        className={`w-4 h-4 transition-transform ${openHoliday === key ? 'rotate-180' : ''}`}
+                      />
+                    </span>
+                  </button>
+                  <AnimatePresence>
+                    {openHoliday === key && (
+                      <motion.ul
+                        initial={{ height: 0, opacity: 0 }}
+                        animate={{ height: 'auto', opacity: 1 }}
+                        exit={{ height: 0, opacity: 0 }}
+                        transition={{ duration: 0.2 }}
+                        className="overflow-hidden px-4 pb-3 space-y-1.5"
+                      >
+                        {entries.map((r, i) => (
+                          <li key={i} className="flex items-start justify-between gap-4 text-xs">
+                            <span>
+                              {r.leaveDates.length > 0
+                                ? `${format(r.startDate, 'MMM dd')} - ${format(r.endDate, 'MMM dd')} · ${r.totalDays} days for ${r.leavesUsed} leave${r.leavesUsed > 1 ? 's' : ''}`
+                                : 'Bridge around this holiday'}
+                            </span>
+                            <span className="text-muted-foreground text-right">{describeRejection(r)}</span>
+                          </li>
+                        ))}
+                      </motion.ul>
+                    )}
+                  </AnimatePresence>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,145 @@
+/**
+ * Calendar model
+ * Every marked day keyed by ISO day (yyyy-MM-dd), so the optimizer and the
+ * calendar views look a day up instead of scanning the holiday lists
+ */
+
+import { isWeeklyOff, WorkWeek } from './workWeek';
+import type { OptimizationResult } from './optimizer';
+
+/** a company holiday, named when the list it came from says what it is */
+export interface Holiday {
+  date: Date;
+  /** e.g. "Diwali" */
+  name?: string;
+}
+
+export type DayType = 'holiday' | 'half-holiday' | 'optional' | 'weekend' | 'workday';
+
+/** a day a plan takes off, and why */
+export interface LeaveAssignment {
+  /** 'sandwich' = a weekend or holiday charged as leave, 'optional' = a restricted holiday taken */
+  kind: 'leave' | 'half-leave' | 'sandwich' | 'optional';
+  /** index of the recommendation the day belongs to */
+  recommendation: number;
+  /** the pool the day is drawn from; unset for restricted holidays */
+  poolId?: string;
+}
+
+export interface CalendarDay {
+  type: DayType;
+  /** e.g. "Diwali", for a named company holiday */
+  holidayName?: string;
+  leave?: LeaveAssignment;
+}
+
+export interface CalendarModel {
+  workWeek: WorkWeek;
+  /** marked days only; any other day is a weekend or a workday */
+  days: Map<string, CalendarDay>;
+}
+
+export interface CalendarInput {
+  holidays: Holiday[];
+  /** office closes at noon */
+  halfDayHolidays?: Holiday[];
+  /** restricted holidays, taken or not */
+  optionalHolidays?: Holiday[];
+  workWeek: WorkWeek;
+}
+
+const pad = (n: number) => (n < 10 ? `0${n}` : `${n}`);
+
+/**
+ * ISO day of a date in local time, e.g. "2026-01-26"; much cheaper than
+ * date-fns format in hot loops
+ */
+export function toDayKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Index holidays by day. A day on several lists keeps the first of
+ * holiday, half-day holiday, restricted holiday.
+ */
+export function buildCalendarModel(input: CalendarInput): CalendarModel {
+  const days = new Map<string, CalendarDay>();
+
+  const mark = (holidays: Holiday[] | undefined, type: DayType) => {
+    for (const { date, name } of holidays ?? []) {
+      const key = toDayKey(date);
+      if (days.has(key)) continue;
+      days.set(key, name ? { type, holidayName: name } : { type });
+    }
+  };
+
+  mark(input.holidays, 'holiday');
+  mark(input.halfDayHolidays, 'half-holiday');
+  mark(input.optionalHolidays, 'optional');
+
+  return { workWeek: input.workWeek, days };
+}
+
+/**
+ * A copy of the model with one more day marked
+ */
+export function withDay(model: CalendarModel, date: Date, day: CalendarDay): CalendarModel {
+  const days = new Map(model.days);
+  days.set(toDayKey(date), day);
+  return { ...model, days };
+}
+
+/**
+ * The day's type; marked days win over the work week, so a holiday on a
+ * Saturday is still a holiday
+ */
+export function getDayType(model: CalendarModel, date: Date): DayType {
+  const marked = model.days.get(toDayKey(date));
+  if (marked) return marked.type;
+  return isWeeklyOff(date, model.workWeek) ? 'weekend' : 'workday';
+}
+
+export function getCalendarDay(model: CalendarModel, date: Date): CalendarDay {
+  return model.days.get(toDayKey(date)) ?? { type: getDayType(model, date) };
+}
+
+/**
+ * A working day is neither a weekly off nor a full holiday; half-day and
+ * restricted holidays still need leave
+ */
+export function isWorkingDay(model: CalendarModel, date: Date): boolean {
+  return getDayType(model, date) !== 'holiday' && !isWeeklyOff(date, model.workWeek);
+}
+
+/**
+ * A copy of the model with every day the plan takes off assigned to its
+ * recommendation (and pool)
+ */
+export function assignPlan(model: CalendarModel, result: OptimizationResult): CalendarModel {
+  const days = new Map(model.days);
+
+  const assign = (date: Date, leave: LeaveAssignment) => {
+    const key = toDayKey(date);
+    const day = days.get(key) ?? { type: getDayType(model, date) };
+    days.set(key, { ...day, leave });
+  };
+
+  result.recommendations.forEach((rec, recommendation) => {
+    const poolOf = new Map(rec.allocations.map(a => [toDayKey(a.date), a.poolId]));
+
+    rec.sandwichDays.forEach(date =>
+      assign(date, { kind: 'sandwich', recommendation, poolId: poolOf.get(toDayKey(date)) })
+    );
+    rec.leaveDates.forEach(date =>
+      assign(date, { kind: 'leave', recommendation, poolId: poolOf.get(toDayKey(date)) })
+    );
+    rec.halfDayLeaves.forEach(date =>
+      assign(date, { kind: 'half-leave', recommendation, poolId: poolOf.get(toDayKey(date)) })
+    );
+    if (rec.optionalHoliday) {
+      assign(rec.optionalHoliday, { kind: 'optional', recommendation });
+    }
+  });
+
+  return { ...model, days };
+}
@@ -0,0 +1,224 @@
+/**
+ * iCalendar export
+ * Writes the plan's breaks as an RFC 5545 .ics file that Google Calendar,
+ * Outlook and Apple Calendar can import
+ */
+
+import { addDays, differenceInDays, format } from 'date-fns';
+import type { LeaveRecommendation, OptimizationResult } from './optimizer';
+
+/** an all-day event */
+export interface CalendarEvent {
+  /** the same break always gets the same UID, so re-importing updates it */
+  uid: string;
+  start: Date;
+  /** last day of the event, inclusive */
+  end: Date;
+  summary: string;
+  description: string;
+}
+
+const PRODUCT_ID = '-//LeaveMax//Leave Plan//EN';
+const UID_DOMAIN = 'leavemax.app';
+/** RFC 5545 §3.1: lines longer than 75 octets are folded */
+const MAX_LINE_OCTETS = 75;
+
+/** RFC 5545 §3.3.11: backslash, semicolon, comma and newline are escaped in TEXT */
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line into 75-octet chunks, each continuation starting
+ * with a space, without splitting a multi-byte character
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // continuation lines lose one octet to the leading space
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      octets = 0;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+
+  return chunks.join('\r\n ');
+}
+
+function formatDate(date: Date): string {
+  return format(date, 'yyyyMMdd');
+}
+
+/** UTC date-time, e.g. 20260118T093000Z */
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/** e.g. "Mon, Jan 26 (half day)" */
+function describeLeaveDate(date: Date, rec: LeaveRecommendation): string {
+  const half = rec.halfDayLeaves.some(d => formatDate(d) === formatDate(date));
+  return `${format(date, 'EEE, MMM dd')}${half ? ' (half day)' : ''}`;
+}
+
+/**
+ * One event spanning the whole break, weekends and holidays included
+ */
+export function getBreakEvent(rec: LeaveRecommendation): CalendarEvent {
+  const leaveLines = rec.leaveDates.length
+    ? ['Leave dates:', ...rec.leaveDates.map(d => `- ${describeLeaveDate(d, rec)}`)]
+    : ['No leave required'];
+
+  return {
+    uid: `break-${formatDate(rec.startDate)}-${formatDate(rec.endDate)}@${UID_DOMAIN}`,
+    start: rec.startDate,
+    end: rec.endDate,
+    summary: rec.kind === 'pinned' && rec.label
+      ? rec.label
+      : `Vacation (${rec.totalDays} days off)`,
+    description: [
+      rec.description,
+      '',
+      ...leaveLines,
+      `Leaves used: ${rec.leavesUsed}`,
+    ].join('\n'),
+  };
+}
+
+/**
+ * One out-of-office event per run of consecutive leave days, leaving out
+ * the weekends and holidays in between
+ */
+export function getLeaveDayEvents(rec: LeaveRecommendation): CalendarEvent[] {
+  const sorted = [...rec.leaveDates].sort((a, b) => a.getTime() - b.getTime());
+  const runs: Date[][] = [];
+
+  for (const date of sorted) {
+    const run = runs[runs.length - 1];
+    if (run && differenceInDays(date, run[run.length - 1]) === 1) run.push(date);
+    else runs.push([date]);
+  }
+
+  return runs.map(run => {
+    const start = run[0];
+    const end = run[run.length - 1];
+    const halfDay = run.length === 1 && rec.halfDayLeaves.some(d => formatDate(d) === formatDate(start));
+
+    return {
+      uid: `leave-${formatDate(start)}-${formatDate(end)}@${UID_DOMAIN}`,
+      start,
+      end,
+      summary: halfDay ? 'Out of office (half day)' : 'Out of office',
+      description: [
+        `On leave: ${run.map(d => describeLeaveDate(d, rec)).join('; ')}`,
+        `Part of a ${rec.totalDays}-day break, ${format(rec.startDate, 'MMM dd')} – ${format(rec.endDate, 'MMM dd')}`,
+      ].join('\n'),
+    };
+  });
+}
+
+/** spaces as %20: Outlook shows a `+` literally */
+function toQuery(params: Record<string, string>): string {
+  return Object.entries(params)
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join('&');
+}
+
+/**
+ * Google Calendar's prefilled "add event" page; all-day end dates are
+ * exclusive, as in iCalendar
+ */
+export function getGoogleCalendarUrl(event: CalendarEvent): string {
+  const params = toQuery({
+    action: 'TEMPLATE',
+    text: event.summary,
+    dates: `${formatDate(event.start)}/${formatDate(addDays(event.end, 1))}`,
+    details: event.description,
+  });
+  return `https://calendar.google.com/calendar/render?${params}`;
+}
+
+/**
+ * Outlook on the web's prefilled compose page, for work (Microsoft 365)
+ * or personal (Outlook.com) accounts
+ */
+export function getOutlookCalendarUrl(
+  event: CalendarEvent,
+  account: 'work' | 'personal' = 'work'
+): string {
+  const host = account === 'work' ? 'outlook.office.com' : 'outlook.live.com';
+  const params = toQuery({
+    path: '/calendar/action/compose',
+    rru: 'addevent',
+    subject: event.summary,
+    startdt: format(event.start, 'yyyy-MM-dd'),
+    enddt: format(addDays(event.end, 1), 'yyyy-MM-dd'),
+    allday: 'true',
+    body: event.description,
+  });
+  return `https://${host}/calendar/0/deeplink/compose?${params}`;
+}
+
+/**
+ * A VCALENDAR with one all-day VEVENT per event, CRLF line endings
+ */
+export function buildCalendar(events: CalendarEvent[], now: Date = new Date()): string {
+  const stamp = formatTimestamp(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...events.flatMap(event => [
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatDate(event.start)}`,
+      // DTEND is exclusive for all-day events
+      `DTEND;VALUE=DATE:${formatDate(addDays(event.end, 1))}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      `DESCRIPTION:${escapeText(event.description)}`,
+      'TRANSP:OPAQUE',
+      'END:VEVENT',
+    ]),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * The plan as an .ics file, one event per break
+ */
+export function exportPlanToICS(result: OptimizationResult): string {
+  return buildCalendar(result.recommendations.map(getBreakEvent));
+}
+
+/**
+ * Save an .ics file through the browser
+ */
+export function downloadICS(contents: string, filename: string): void {
+  const blob = new Blob([contents], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,348 @@
+/**
+ * iCalendar Holiday Parser
+ * Extracts holidays from .ics files (HR systems, Google/Outlook holiday
+ * calendars), expanding multi-day events and yearly recurrences
+ */
+
+import { addDays, differenceInDays, format } from 'date-fns';
+import { isValidHolidayDate, ParsedHoliday, ParseError } from './pdfParser';
+
+/** a content line, e.g. DTSTART;VALUE=DATE:20260126 */
+interface Property {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface ParsedEvent {
+  uid?: string;
+  summary?: string;
+  status?: string;
+  start?: Property;
+  end?: Property;
+  duration?: string;
+  rrule?: string;
+  exdates: Date[];
+  recurrenceId?: Property;
+}
+
+const WEEKDAYS: Record<string, number> = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 };
+
+/** recurrences are expanded no further than the years a holiday list can cover */
+const MAX_OCCURRENCES = 50;
+
+/**
+ * RFC 5545 §3.1: a line starting with a space or tab continues the
+ * previous one
+ */
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .filter(line => line.trim().length > 0);
+}
+
+/**
+ * Split a content line into name, parameters and value; the value starts
+ * at the first colon outside a quoted parameter
+ */
+function parseProperty(line: string): Property | null {
+  let inQuotes = false;
+  let colon = -1;
+
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, value = ''] = part.split('=');
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/** RFC 5545 §3.3.11 */
+function unescapeText(text: string): string {
+  return text
+    .replace(/\\n/gi, ' ')
+    .replace(/\\([,;\\])/g, '$1')
+    .trim();
+}
+
+/**
+ * The calendar date of a DATE or DATE-TIME value, as written: a holiday
+ * is a day in the feed's own calendar, whatever the time zone
+ */
+function parseDateValue(value: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 ? date : null;
+}
+
+/** whether a DATE-TIME value is past midnight, e.g. 20260126T120000 */
+function hasTimeOfDay(value: string): boolean {
+  const time = value.match(/T(\d{6})/);
+  return !!time && time[1] !== '000000';
+}
+
+/** days covered by a DURATION such as P1D, P2W or PT12H (at least one) */
+function durationDays(duration: string): number {
+  const match = duration.match(/^[+]?P(?:(\d+)W)?(?:(\d+)D)?/);
+  if (!match) return 1;
+  return Math.max(1, Number(match[1] ?? 0) * 7 + Number(match[2] ?? 0));
+}
+
+/**
+ * How many days an event covers. All-day ends are exclusive; a timed
+ * event that ends after midnight also covers its last day.
+ */
+function getEventLength(event: ParsedEvent, start: Date): number {
+  if (event.end) {
+    const end = parseDateValue(event.end.value);
+    if (!end) return 1;
+    const days = differenceInDays(end, start) + (hasTimeOfDay(event.end.value) ? 1 : 0);
+    return Math.max(1, days);
+  }
+  if (event.duration) return durationDays(event.duration);
+  return 1;
+}
+
+function parseRule(rrule: string): Record<string, string> {
+  return Object.fromEntries(
+    rrule.split(';').map(part => {
+      const [key, value = ''] = part.split('=');
+      return [key.toUpperCase(), value.toUpperCase()];
+    })
+  );
+}
+
+/**
+ * The `ordinal`th `weekday` of a month (negative counts from the end),
+ * e.g. 4TH in November or -1MO in May
+ */
+function nthWeekdayOfMonth(year: number, month: number, weekday: number, ordinal: number): Date | null {
+  if (ordinal > 0) {
+    const first = new Date(year, month, 1);
+    const date = addDays(first, ((weekday - first.getDay() + 7) % 7) + (ordinal - 1) * 7);
+    return date.getMonth() === month ? date : null;
+  }
+
+  const last = new Date(year, month + 1, 0);
+  const date = addDays(last, -((last.getDay() - weekday + 7) % 7) + (ordinal + 1) * 7);
+  return date.getMonth() === month ? date : null;
+}
+
+/** the occurrence of a yearly rule in `year`, or null when it has none */
+function getYearlyOccurrence(rule: Record<string, string>, start: Date, year: number): Date | null {
+  const month = rule.BYMONTH ? Number(rule.BYMONTH.split(',')[0]) - 1 : start.getMonth();
+
+  if (rule.BYDAY) {
+    const byDay = rule.BYDAY.split(',')[0].match(/^([+-]?\d+)?([A-Z]{2})$/);
+    const weekday = byDay && WEEKDAYS[byDay[2]];
+    if (weekday === null || weekday === undefined) return null;
+    const ordinal = Number(byDay![1] ?? rule.BYSETPOS ?? 1);
+    return nthWeekdayOfMonth(year, month, weekday, ordinal);
+  }
+
+  const day = rule.BYMONTHDAY ? Number(rule.BYMONTHDAY.split(',')[0]) : start.getDate();
+  const date = new Date(year, month, day);
+  // Feb 29 only recurs in leap years
+  return date.getMonth() === month ? date : null;
+}
+
+/**
+ * Start dates of every occurrence. Yearly rules are expanded, bounded by
+ * COUNT, UNTIL and the years a holiday list can cover; other rules only
+ * contribute their first occurrence. A series starting long ago (feeds
+ * often use DTSTART:1970…) is expanded from its first year in range.
+ */
+function getOccurrences(event: ParsedEvent, start: Date): Date[] {
+  if (!event.rrule) return [start];
+
+  const rule = parseRule(event.rrule);
+  if (rule.FREQ !== 'YEARLY') return [start];
+
+  const interval = Math.max(1, Number(rule.INTERVAL ?? 1));
+  const until = rule.UNTIL ? parseDateValue(rule.UNTIL) : null;
+  const firstYear = new Date().getFullYear() - 1;
+  const horizon = new Date().getFullYear() + 3;
+  const occurrences: Date[] = [];
+
+  // intervals before the planning range; they still use up COUNT
+  const skipped = Math.max(0, Math.ceil((firstYear - start.getFullYear()) / interval));
+  const count = rule.COUNT ? Number(rule.COUNT) - skipped : MAX_OCCURRENCES;
+
+  for (let i = skipped; occurrences.length < count && i < skipped + MAX_OCCURRENCES; i++) {
+    const year = start.getFullYear() + i * interval;
+    if (year > horizon || (until && year > until.getFullYear())) break;
+
+    const date = getYearlyOccurrence(rule, start, year);
+    if (!date || (until && date > until)) continue;
+    occurrences.push(date);
+  }
+
+  const excluded = new Set(event.exdates.map(d => format(d, 'yyyy-MM-dd')));
+  return occurrences.filter(d => !excluded.has(format(d, 'yyyy-MM-dd')));
+}
+
+/**
+ * VEVENTs of the calendar; properties of nested components (alarms) are
+ * ignored
+ */
+function parseEvents(lines: string[]): ParsedEvent[] {
+  const events: ParsedEvent[] = [];
+  const stack: string[] = [];
+  let event: ParsedEvent | null = null;
+
+  for (const line of lines) {
+    const property = parseProperty(line);
+    if (!property) continue;
+
+    if (property.name === 'BEGIN') {
+      stack.push(property.value.toUpperCase());
+      if (property.value.toUpperCase() === 'VEVENT') event = { exdates: [] };
+      continue;
+    }
+    if (property.name === 'END') {
+      if (stack.pop() === 'VEVENT' && event) {
+        events.push(event);
+        event = null;
+      }
+      continue;
+    }
+    if (!event || stack[stack.length - 1] !== 'VEVENT') continue;
+
+    switch (property.name) {
+      case 'UID':
+        event.uid = property.value;
+        break;
+      case 'SUMMARY':
+        event.summary = unescapeText(property.value);
+        break;
+      case 'STATUS':
+        event.status = property.value.toUpperCase();
+        break;
+      case 'DTSTART':
+        event.start = property;
+        break;
+      case 'DTEND':
+        event.end = property;
+        break;
+      case 'DURATION':
+        event.duration = property.value.toUpperCase();
+        break;
+      case 'RRULE':
+        event.rrule = property.value;
+        break;
+      case 'EXDATE':
+        event.exdates.push(
+          ...property.value.split(',').map(parseDateValue).filter((d): d is Date => d !== null)
+        );
+        break;
+      case 'RECURRENCE-ID':
+        event.recurrenceId = property;
+        break;
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Holidays in an iCalendar text: one entry per day, multi-day events
+ * spread over every day they cover
+ */
+export function parseICSText(text: string): ParsedHoliday[] {
+  const lines = unfoldLines(text);
+  if (!lines.some(line => line.toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw {
+      type: 'UNSUPPORTED_FORMAT',
+      message: 'File is not an iCalendar file',
+      details: 'Expected a BEGIN:VCALENDAR line',
+    } as ParseError;
+  }
+
+  const events = parseEvents(lines);
+
+  // a moved or cancelled instance replaces its occurrence of the series
+  const overridden = new Map<string, Set<string>>();
+  for (const event of events) {
+    const date = event.recurrenceId && parseDateValue(event.recurrenceId.value);
+    if (!event.uid || !date) continue;
+    const dates = overridden.get(event.uid) ?? new Set<string>();
+    dates.add(format(date, 'yyyy-MM-dd'));
+    overridden.set(event.uid, dates);
+  }
+
+  const holidays = new Map<string, ParsedHoliday>();
+
+  for (const event of events) {
+    if (event.status === 'CANCELLED' || !event.start) continue;
+    const start = parseDateValue(event.start.value);
+    if (!start) continue;
+
+    const length = getEventLength(event, start);
+    const skip = (!event.recurrenceId && event.uid && overridden.get(event.uid)) || new Set<string>();
+
+    for (const occurrence of getOccurrences(event, start)) {
+      if (skip.has(format(occurrence, 'yyyy-MM-dd'))) continue;
+
+      for (let i = 0; i < length; i++) {
+        const date = addDays(occurrence, i);
+        const key = format(date, 'yyyy-MM-dd');
+        if (!isValidHolidayDate(date) || holidays.has(key)) continue;
+        holidays.set(key, { date, name: event.summary || undefined });
+      }
+    }
+  }
+
+  const parsedHolidays = [...holidays.values()].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  if (parsedHolidays.length === 0) {
+    throw {
+      type: 'NO_DATES',
+      message: 'Calendar contains no holidays in the planning range',
+      details: `Events must fall between ${new Date().getFullYear() - 1} and ${new Date().getFullYear() + 3}`,
+    } as ParseError;
+  }
+
+  return parsedHolidays;
+}
+
+/**
+ * Parse an .ics file and extract holidays
+ */
+export async function parseHolidayICS(file: File): Promise<ParsedHoliday[]> {
+  const MAX_SIZE = 5 * 1024 * 1024; // 5MB
+  if (file.size > MAX_SIZE) {
+    throw {
+      type: 'PARSE_ERROR',
+      message: 'File too large',
+      details: `File size (${(file.size / 1024 / 1024).toFixed(2)}MB) exceeds 5MB limit`,
+    } as ParseError;
+  }
+
+  let text: string;
+  try {
+    text = await file.text();
+  } catch (error) {
+    throw {
+      type: 'PARSE_ERROR',
+      message: 'Could not read the calendar file',
+      details: error instanceof Error ? error.message : String(error),
+    } as ParseError;
+  }
+
+  return parseICSText(text);
+}
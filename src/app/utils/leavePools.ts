@@ -0,0 +1,197 @@
+/**
+ * Leave pools
+ * Typed leave balances (earned, casual, sick…) and the rules for spending them
+ */
+
+export interface LeaveAccrual {
+  frequency: 'monthly' | 'quarterly';
+  /** days credited at the start of every period */
+  creditPerPeriod: number;
+  /** days available before the first credit */
+  openingBalance: number;
+  /** may borrow against credits that haven't accrued yet */
+  allowNegative: boolean;
+}
+
+export interface LeavePool {
+  id: string;
+  label: string;
+  description: string;
+  balance: number;
+  /** max consecutive working-day leaves drawn from this pool (unset = no own limit) */
+  maxConsecutive?: number;
+  /** may share a block with leaves from other combinable pools */
+  combinable: boolean;
+  /** lower is spent first */
+  priority: number;
+  /** whether the optimizer may plan with it (sick leave can't be planned) */
+  plannable: boolean;
+  /** max days carried into next year (unset = everything carries forward) */
+  maxCarryForward?: number;
+  /** max days paid out after carry-forward (unset = none) */
+  maxEncashable?: number;
+  /**
+   * last day the balance can be used, in the leave year it falls in; other
+   * leave years keep their balance to the year end (unset = no lapse)
+   */
+  lapseDate?: Date;
+  /** credited over the leave year instead of all at its start */
+  accrual?: LeaveAccrual;
+}
+
+/** which pool a charged day (leave or sandwiched day) is drawn from */
+export interface LeaveAllocation {
+  date: Date;
+  poolId: string;
+  /** days drawn: 1, or 0.5 for a half-day leave */
+  amount: number;
+}
+
+export interface YearEndSettlement {
+  carriedForward: number;
+  encashed: number;
+  lapsed: number;
+}
+
+export interface PoolBalance extends YearEndSettlement {
+  poolId: string;
+  label: string;
+  /** the leave year this balance belongs to, e.g. "2026" or "FY 2026–27" */
+  leaveYear: string;
+  balance: number;
+  used: number;
+  remaining: number;
+}
+
+export const DEFAULT_LEAVE_POOLS: LeavePool[] = [
+  {
+    id: 'earned',
+    label: 'Earned Leaves',
+    description: 'Annual earned leave balance',
+    balance: 15,
+    combinable: true,
+    priority: 1,
+    plannable: true,
+    maxCarryForward: 30,
+    maxEncashable: 10,
+  },
+  {
+    id: 'casual',
+    label: 'Casual Leaves',
+    description: 'Casual or personal leave days',
+    balance: 7,
+    maxConsecutive: 2,
+    combinable: false,
+    priority: 2,
+    plannable: true,
+    maxCarryForward: 0,
+    maxEncashable: 0,
+  },
+  {
+    id: 'sick',
+    label: 'Sick Leaves',
+    description: 'Medical/sick leave allocation',
+    balance: 5,
+    combinable: false,
+    priority: 3,
+    plannable: false,
+  },
+];
+
+/**
+ * A single untyped pool, for callers that only know a total balance
+ */
+export function createLeavePool(balance: number): LeavePool {
+  return {
+    id: 'leave',
+    label: 'Leaves',
+    description: 'Leave balance',
+    balance,
+    combinable: true,
+    priority: 1,
+    plannable: true,
+  };
+}
+
+/**
+ * Plannable pools, most preferred first
+ */
+export function getPlannablePools(pools: LeavePool[]): LeavePool[] {
+  return pools
+    .filter(p => p.plannable && p.balance > 0)
+    .sort((a, b) => a.priority - b.priority);
+}
+
+/**
+ * The pool's lapse date if it falls in the leave year `yearStart`–`yearEnd`;
+ * the balances of the other leave years don't lapse early
+ */
+export function getLapseDate(pool: LeavePool, yearStart: Date, yearEnd: Date): Date | undefined {
+  const { lapseDate } = pool;
+  return lapseDate &&
+    lapseDate.getTime() >= yearStart.getTime() &&
+    lapseDate.getTime() <= yearEnd.getTime()
+    ? lapseDate
+    : undefined;
+}
+
+/**
+ * Split an unused balance into carried forward, encashed and lapsed days
+ * at the end of the leave year `yearStart`–`yearEnd`. A balance that
+ * lapses during the year is lost whole: nothing carries over or is paid out.
+ */
+export function settleYearEnd(
+  pool: LeavePool,
+  remaining: number,
+  yearStart: Date,
+  yearEnd: Date
+): YearEndSettlement {
+  const left = Math.max(0, remaining);
+  if (getLapseDate(pool, yearStart, yearEnd)) {
+    return { carriedForward: 0, encashed: 0, lapsed: left };
+  }
+
+  const carriedForward = Math.min(left, pool.maxCarryForward ?? Infinity);
+  const encashed = Math.min(left - carriedForward, pool.maxEncashable ?? 0);
+
+  return {
+    carriedForward,
+    encashed,
+    lapsed: left - carriedForward - encashed,
+  };
+}
+
+/**
+ * Opening balance plus a full year of credits
+ */
+export function getAnnualAccrual(accrual: LeaveAccrual): number {
+  const periods = accrual.frequency === 'monthly' ? 12 : 4;
+  return accrual.openingBalance + accrual.creditPerPeriod * periods;
+}
+
+/**
+ * Days credited to a pool up to and including `date`, in the leave year
+ * starting `yearStart` (default: January 1 of that year)
+ */
+export function getAccruedBalance(
+  pool: LeavePool,
+  date: Date,
+  yearStart: Date = new Date(date.getFullYear(), 0, 1)
+): number {
+  const { accrual } = pool;
+  if (!accrual || accrual.allowNegative) {
+    return pool.balance;
+  }
+
+  const months =
+    (date.getFullYear() - yearStart.getFullYear()) * 12 +
+    date.getMonth() - yearStart.getMonth();
+  const periods = accrual.frequency === 'monthly'
+    ? months + 1
+    : Math.floor(months / 3) + 1;
+
+  return Math.min(
+    pool.balance,
+    accrual.openingBalance + accrual.creditPerPeriod * periods
+  );
+}
@@ -1,44 +1,170 @@
 import {
   addDays,
+  addMonths,
   differenceInDays,
+  endOfYear,
   format,
+  isAfter,
   isBefore,
-  isSameDay,
-  isWeekend,
+  isWithinInterval,
+  parse,
   startOfDay,
+  startOfQuarter,
+  startOfYear,
 } from 'date-fns';
+import {
+  createLeavePool,
+  getAccruedBalance,
+  getLapseDate,
+  getPlannablePools,
+  LeaveAllocation,
+  LeavePool,
+  PoolBalance,
+  settleYearEnd,
+} from './leavePools';
+import { DEFAULT_WORK_WEEK, isWeeklyOff, WorkWeek } from './workWeek';
+import {
+  buildCalendarModel,
+  CalendarModel,
+  getDayType,
+  Holiday,
+  isWorkingDay,
+  toDayKey,
+  withDay,
+} from './calendarModel';
+import { ScoringProfile, scoreBreak, scoreSpacing } from './scoring';
+import {
+  getCalendarYearWindow,
+  getLeaveYears,
+  isInWindow,
+  LeaveYear,
+  PlanningWindow,
+} from './planningWindow';
 
 /* -------------------- types -------------------- */
 
 export interface LeaveRecommendation {
+  /**
+   * 'holiday' = anchored on a company holiday, 'weekend' = weekend-bridged
+   * filler, 'pinned' = leave the user had already fixed
+   */
+  kind: 'holiday' | 'weekend' | 'pinned';
+  /** what a pinned block is for, e.g. "Sister's wedding" */
+  label?: string;
   leaveDates: Date[];
+  /** leave dates on half-day holidays, charged half a day each */
+  halfDayLeaves: Date[];
   startDate: Date;
   endDate: Date;
   totalDays: number;
   leavesUsed: number;
+  /** weekends / holidays charged as leave under the sandwich rule */
+  sandwichDays: Date[];
+  /** the pool every leave and sandwiched day is drawn from */
+  allocations: LeaveAllocation[];
+  /** a restricted holiday taken for this break, which costs no leave */
+  optionalHoliday?: Date;
   description: string;
 }
 
+/** dates that can't be taken as leave */
+export interface BlockedPeriod {
+  start: Date;
+  end: Date;
+  label: string;
+  /** 'blackout' = no leave allowed, 'mandatory' = must be in office, even on a day off */
+  kind: 'blackout' | 'mandatory';
+}
+
+/** restricted holidays: any `limit` of `holidays` may be taken off */
+export interface OptionalHolidayGroup {
+  id: string;
+  label: string;
+  limit: number;
+  holidays: Holiday[];
+}
+
+/** leave the user has already committed to, e.g. booked flights */
+export interface PinnedPeriod {
+  start: Date;
+  end: Date;
+  label: string;
+}
+
+export type RejectionReason =
+  | 'overlap'
+  | 'min-gap'
+  | 'budget'
+  | 'monthly-cap'
+  | 'max-consecutive'
+  | 'no-anchor'
+  | 'blocked'
+  | 'low-score';
+
+/** a block built around a holiday that didn't make it into the plan */
+export interface RejectedOpportunity {
+  holiday: Date;
+  /** empty when a blocked period stopped the block being built at all */
+  leaveDates: Date[];
+  startDate: Date;
+  endDate: Date;
+  totalDays: number;
+  leavesUsed: number;
+  reason: RejectionReason;
+  /** for 'blocked' */
+  period?: BlockedPeriod;
+  /** the chosen break it collides with, for 'overlap' and 'min-gap' */
+  clashesWith?: LeaveRecommendation;
+}
+
 export interface OptimizationResult {
   recommendations: LeaveRecommendation[];
   optimizedLeaves: Date[];
+  /** the optimized leaves that are half-day leaves */
+  halfDayLeaves: Date[];
+  /** restricted holidays the plan takes */
+  optionalHolidays: Date[];
+  sandwichDays: Date[];
   totalVacations: number;
   longestBreak: number;
+  /** every day off across all breaks, holidays and weekends included */
+  totalDaysOff: number;
+  /** leave days plus sandwiched days charged, half-day leaves counting 0.5 */
+  leavesUsed: number;
   leavesRemaining: number;
+  poolBalances: PoolBalance[];
+  /** every holiday block considered but not taken, and why */
+  rejected: RejectedOpportunity[];
+  /** pinned periods the balance (or a pool's rules) can't cover */
+  unfundedPins: PinnedPeriod[];
+  /** pinned periods of weekends and holidays only, which need no leave */
+  offDayPins: PinnedPeriod[];
+  /** min-gap, quarterly and monthly rules the plan couldn't keep */
+  unmetConstraints: string[];
+  /** 'exact' = proven optimal, 'greedy' = fast fallback for huge inputs or a spacing weight */
+  solver: 'exact' | 'greedy';
 }
 
 /* -------------------- utils -------------------- */
 
+/** what makes a day off, before any leave is taken */
+type WorkCalendar = {
+  holidays: Date[];
+  /** offices close at noon: working days that need only half a day of leave */
+  halfDays: Date[];
+  workWeek: WorkWeek;
+  /** the same days indexed by ISO day, for per-day lookups */
+  calendar: CalendarModel;
+};
+
 function normalize(d: Date) {
   return startOfDay(d);
 }
 
-function isHoliday(date: Date, holidays: Date[]) {
-  return holidays.some(h => isSameDay(h, date));
-}
-
-function isWorkingDay(date: Date, holidays: Date[]) {
-  return !isWeekend(date) && !isHoliday(date, holidays);
+function findBlockedPeriod(date: Date, periods: BlockedPeriod[]) {
+  return periods.find(
+    p => !isBefore(date, normalize(p.start)) && !isAfter(date, normalize(p.end))
+  );
 }
 
 function getDateRange(start: Date, end: Date) {
@@ -58,7 +184,7 @@ function getDateRange(start: Date, end: Date) {
 /** max consecutive WORKING-DAY leaves */
 function exceedsMaxConsecutiveLeaves(
   leaveDates: Date[],
-  holidays: Date[],
+  cal: WorkCalendar,
   max: number
 ) {
   const sorted = leaveDates
@@ -73,7 +199,7 @@ function exceedsMaxConsecutiveLeaves(
 
     if (
       differenceInDays(cur, prev) === 1 &&
-      isWorkingDay(cur, holidays)
+      isWorkingDay(cal.calendar, cur)
     ) {
       streak++;
       if (streak > max) return true;
@@ -84,18 +210,61 @@ function exceedsMaxConsecutiveLeaves(
   return false;
 }
 
-/** holiday must exist within ±3 days (excluding weekend holidays) */
+/** more than `max` charged days in a row, sandwiched days included; `dates` in order */
+function exceedsMaxChargedRun(dates: Date[], max: number) {
+  let streak = 0;
+  return dates.some((date, i) => {
+    streak = i > 0 && differenceInDays(date, dates[i - 1]) === 1 ? streak + 1 : 1;
+    return streak > max;
+  });
+}
+
+/** holiday must exist within ±anchorWindow days (excluding weekend holidays) */
 function hasHolidayAnchor(
   leaveDates: Date[],
-  holidays: Date[]
+  cal: WorkCalendar,
+  anchorWindow: number
 ) {
-  const validHolidays = holidays.filter(h => !isWeekend(h));
+  const isValidHoliday = (d: Date) =>
+    getDayType(cal.calendar, d) === 'holiday' && !isWeeklyOff(d, cal.workWeek);
 
-  return leaveDates.some(ld =>
-    validHolidays.some(h =>
-      Math.abs(differenceInDays(ld, h)) <= 3
-    )
-  );
+  return leaveDates.some(ld => {
+    for (let offset = -anchorWindow; offset <= anchorWindow; offset++) {
+      if (isValidHoliday(addDays(ld, offset))) return true;
+    }
+    return false;
+  });
+}
+
+/**
+ * Sandwich rule: weekends / holidays that fall between two leave days
+ * are charged as leave too.
+ */
+function getSandwichDays(
+  leaveDates: Date[],
+  cal: WorkCalendar,
+  sandwichRule: boolean
+) {
+  if (!sandwichRule) return [];
+
+  const sorted = leaveDates
+    .map(normalize)
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  const res: Date[] = [];
+
+  for (let i = 1; i < sorted.length; i++) {
+    const between = getDateRange(
+      addDays(sorted[i - 1], 1),
+      addDays(sorted[i], -1)
+    );
+
+    // a working day in the gap breaks the sandwich
+    if (between.every(d => !isWorkingDay(cal.calendar, d))) {
+      res.push(...between);
+    }
+  }
+  return res;
 }
 
 /* -------------------- vacation expansion -------------------- */
@@ -106,17 +275,15 @@ function hasHolidayAnchor(
  */
 function extendToFullVacation(
   leaveDates: Date[],
-  holidays: Date[],
+  rules: PlanRules,
   anchor: Date
 ) {
-  const leaveSet = new Set(
-    leaveDates.map(d => format(d, 'yyyy-MM-dd'))
-  );
+  const leaveSet = new Set(leaveDates.map(toDayKey));
 
+  // a mandatory office day ends the break even if it is a weekend
   const isOffDay = (d: Date) =>
-    isWeekend(d) ||
-    isHoliday(d, holidays) ||
-    leaveSet.has(format(d, 'yyyy-MM-dd'));
+    findBlockedPeriod(d, rules.blockedPeriods)?.kind !== 'mandatory' &&
+    (!isWorkingDay(rules.calendar, d) || leaveSet.has(toDayKey(d)));
 
   // 🔒 Bound expansion around anchor + leaves ONLY
   let start = normalize(
@@ -139,171 +306,1655 @@ function extendToFullVacation(
 
 /* -------------------- opportunity builders -------------------- */
 
+/** rules shared by every opportunity builder */
+type PlanRules = WorkCalendar & {
+  maxContinuousLeaves: number;
+  sandwichRule: boolean;
+  /** a half-day leave covers a half-day holiday (otherwise it costs a full day) */
+  halfDayLeaves: boolean;
+  anchorWindow: number;
+  bridgeRadius: number;
+  blockedPeriods: BlockedPeriod[];
+  minGapWorkingDays: number;
+  minBreaksPerQuarter: number;
+  maxLeavesPerMonth: number;
+  /** leave can only be planned inside it */
+  window: PlanningWindow;
+  optionalGroups: OptionalHolidayGroup[];
+  /** quarters the break target applies to, e.g. "2026-Q1" */
+  quarters: string[];
+};
+
+type OpportunityKind = 'holiday' | 'weekend' | 'pinned';
+
+type Opportunity = {
+  kind: OpportunityKind;
+  label?: string;
+  /** the holiday (or first leave day) the block was built around */
+  anchor: Date;
+  leaveDates: Date[];
+  /** leave dates charged half a day */
+  halfDays: Date[];
+  sandwichDays: Date[];
+  startDate: Date;
+  endDate: Date;
+  totalDays: number;
+  /** leave dates (half-day ones at 0.5) + sandwiched days */
+  leavesUsed: number;
+  bonusDays: number;
+  efficiency: number;
+  /** a restricted holiday the block takes off, and its group's index */
+  optionalHoliday?: Date;
+  optionalGroup?: number;
+};
+
+/** why a block breaks the rules, if it does */
+function findRuleViolation(
+  leaveDates: Date[],
+  kind: OpportunityKind,
+  rules: PlanRules
+): RejectionReason | null {
+  // pinned leave is the user's call, only the optimizer's picks are vetted
+  if (kind === 'pinned') return null;
+
+  if (leaveDates.some(d => findBlockedPeriod(d, rules.blockedPeriods))) {
+    return 'blocked';
+  }
+  if (exceedsMaxConsecutiveLeaves(leaveDates, rules, rules.maxContinuousLeaves)) {
+    return 'max-consecutive';
+  }
+  if (kind === 'holiday' && !hasHolidayAnchor(leaveDates, rules, rules.anchorWindow)) {
+    return 'no-anchor';
+  }
+  return null;
+}
+
+/**
+ * A block for these leave dates, or null when it breaks the rules; holiday
+ * blocks that do are recorded in `rejected` when given.
+ */
 function buildOpportunity(
   leaveDates: Date[],
-  holidays: Date[],
-  anchorHoliday: Date,
-  maxContinuousLeaves: number
-) {
-  if (
-    leaveDates.length === 0 ||
-    exceedsMaxConsecutiveLeaves(leaveDates, holidays, maxContinuousLeaves) ||
-    !hasHolidayAnchor(leaveDates, holidays)
-  ) {
+  anchor: Date,
+  kind: OpportunityKind,
+  rules: PlanRules,
+  rejected?: RejectedOpportunity[]
+): Opportunity | null {
+  if (leaveDates.length === 0) {
+    return null;
+  }
+
+  // holidays outside the window still lengthen a break, leave can't
+  // be planned there
+  if (kind !== 'pinned' && leaveDates.some(d => !isInWindow(d, rules.window))) {
     return null;
   }
 
   const { startDate, endDate } = extendToFullVacation(
     leaveDates,
-    holidays,
-    anchorHoliday
+    rules,
+    anchor
   );
 
   const totalDays = getDateRange(startDate, endDate).length;
+  const sandwichDays = getSandwichDays(leaveDates, rules, rules.sandwichRule);
+  const halfDays = rules.halfDayLeaves
+    ? leaveDates.filter(d => getDayType(rules.calendar, d) === 'half-holiday')
+    : [];
+  const leavesUsed = leaveDates.length - halfDays.length / 2 + sandwichDays.length;
+
+  const violation = findRuleViolation(leaveDates, kind, rules);
+  if (violation) {
+    rejected?.push({
+      holiday: anchor,
+      leaveDates,
+      startDate,
+      endDate,
+      totalDays,
+      leavesUsed,
+      reason: violation,
+      period: leaveDates
+        .map(d => findBlockedPeriod(d, rules.blockedPeriods))
+        .find(Boolean),
+    });
+    return null;
+  }
 
   return {
+    kind,
+    anchor,
     leaveDates,
+    halfDays,
+    sandwichDays,
     startDate,
     endDate,
     totalDays,
-    bonusDays: totalDays - leaveDates.length,
-    efficiency: totalDays / leaveDates.length,
+    leavesUsed,
+    bonusDays: totalDays - leavesUsed,
+    efficiency: totalDays / leavesUsed,
   };
 }
 
-type Opportunity = {
-  leaveDates: Date[];
-  startDate: Date;
-  endDate: Date;
-  totalDays: number;
-  bonusDays: number;
-  efficiency: number;
+/**
+ * Working days within anchorWindow days of `from`, walking away from it
+ * in `step` direction past weekends and holidays (so a Friday holiday
+ * reaches the Monday after), stopping at the first blocked day
+ */
+function walkWorkingDays(from: Date, step: 1 | -1, rules: PlanRules) {
+  const days: Date[] = [];
+  let blockedBy: BlockedPeriod | undefined;
+
+  for (let offset = 1; offset <= rules.anchorWindow; offset++) {
+    const d = addDays(from, offset * step);
+    if (!isWorkingDay(rules.calendar, d)) continue;
+
+    blockedBy = findBlockedPeriod(d, rules.blockedPeriods);
+    if (blockedBy) break;
+
+    if (step === 1) days.push(normalize(d));
+    else days.unshift(normalize(d));
+  }
+  return { days, blockedBy };
+}
+
+/**
+ * Opportunities around a run of holidays `first`..`last` (one holiday when
+ * they are the same day). Every working day between them is taken, plus
+ * every before/after split up to maxContinuousLeaves on each side, so the
+ * solver can also spend an odd leftover day on a short bridge. Splits
+ * that break the rules, and blocked days that cut a bridge short, are
+ * recorded in `rejected`.
+ */
+function findOpportunitiesAroundHolidays(
+  first: Date,
+  last: Date,
+  rules: PlanRules,
+  rejected: RejectedOpportunity[]
+): Opportunity[] {
+  const { maxContinuousLeaves, blockedPeriods } = rules;
+  const results: Opportunity[] = [];
+
+  const between = getDateRange(addDays(first, 1), addDays(last, -1))
+    .filter(d => isWorkingDay(rules.calendar, d));
+  const { days: before, blockedBy: blockedBefore } =
+    walkWorkingDays(first, -1, rules);
+  const { days: after, blockedBy: blockedAfter } =
+    walkWorkingDays(last, 1, rules);
+
+  const skip = (period: BlockedPeriod | undefined) => {
+    if (!period) return;
+    rejected.push({
+      holiday: first,
+      leaveDates: [],
+      startDate: first,
+      endDate: last,
+      totalDays: 0,
+      leavesUsed: 0,
+      reason: 'blocked',
+      period,
+    });
+  };
+
+  const blockedBetween = between
+    .map(d => findBlockedPeriod(d, blockedPeriods))
+    .find(Boolean);
+  if (blockedBetween) {
+    skip(blockedBetween);
+    return results;
+  }
+
+  // only a block within reach of the bridge actually costs anything
+  if (before.length < maxContinuousLeaves) skip(blockedBefore);
+  if (after.length < maxContinuousLeaves) skip(blockedAfter);
+
+  for (let k = 0; k <= Math.min(before.length, maxContinuousLeaves); k++) {
+    for (let j = 0; j <= Math.min(after.length, maxContinuousLeaves); j++) {
+      const opp = buildOpportunity(
+        [
+          ...before.slice(before.length - k),
+          ...between,
+          ...after.slice(0, j),
+        ],
+        first,
+        'holiday',
+        rules,
+        rejected
+      );
+      if (opp) results.push(opp);
+    }
+  }
+
+  return results;
+}
+
+/* -------------------- opportunity cache -------------------- */
+
+/** days either side of a holiday run a cached bridge may reach */
+const CACHE_REACH_DAYS = 21;
+/** entries kept before the cache starts over */
+const CACHE_MAX_ENTRIES = 5000;
+
+type CachedRun = {
+  opportunities: Opportunity[];
+  rejected: RejectedOpportunity[];
 };
 
-function findOpportunitiesAroundHoliday(
-  holiday: Date,
-  holidays: Date[],
-  maxContinuousLeaves: number
+/**
+ * Bridges around a holiday run only depend on the calendar near it, so
+ * they are kept across runs (the worker stays alive between them) and
+ * toggling one holiday only rebuilds the runs it is close to
+ */
+const opportunityCache = new Map<string, CachedRun>();
+
+/** one character per day, plus the blocked period covering it */
+function describeDay(d: Date, rules: PlanRules) {
+  const dayType = getDayType(rules.calendar, d);
+  const type = isWeeklyOff(d, rules.workWeek)
+    ? 'o'
+    : dayType === 'holiday'
+      ? 'h'
+      : dayType === 'half-holiday'
+        ? 'f'
+        : 'w';
+  const period = findBlockedPeriod(d, rules.blockedPeriods);
+
+  return period
+    ? `${type}[${period.kind}:${period.label}:${toDayKey(period.start)}:${toDayKey(period.end)}]`
+    : type;
+}
+
+function findCachedOpportunitiesAroundHolidays(
+  first: Date,
+  last: Date,
+  rules: PlanRules,
+  rejected: RejectedOpportunity[]
 ): Opportunity[] {
-  if (isWeekend(holiday)) return [];
+  // the reach, plus the anchor window and the day that ends a break
+  const margin = CACHE_REACH_DAYS + rules.anchorWindow + 1;
+  const key = [
+    rules.maxContinuousLeaves,
+    rules.sandwichRule,
+    rules.halfDayLeaves,
+    rules.anchorWindow,
+    toDayKey(rules.window.start),
+    toDayKey(rules.window.end),
+    toDayKey(first),
+    toDayKey(last),
+    getDateRange(addDays(first, -margin), addDays(last, margin))
+      .map(d => describeDay(d, rules))
+      .join(''),
+  ].join('|');
+
+  const cached = opportunityCache.get(key);
+  if (cached) {
+    rejected.push(...cached.rejected);
+    return cached.opportunities;
+  }
+
+  const runRejected: RejectedOpportunity[] = [];
+  const opportunities = findOpportunitiesAroundHolidays(first, last, rules, runRejected);
+  rejected.push(...runRejected);
+
+  // a bridge that ran past the reach may depend on days outside the key
+  const reachStart = addDays(first, -CACHE_REACH_DAYS);
+  const reachEnd = addDays(last, CACHE_REACH_DAYS);
+  const withinReach = [...opportunities, ...runRejected].every(
+    o => !isBefore(o.startDate, reachStart) && !isAfter(o.endDate, reachEnd)
+  );
+
+  if (withinReach) {
+    if (opportunityCache.size >= CACHE_MAX_ENTRIES) opportunityCache.clear();
+    opportunityCache.set(key, { opportunities, rejected: runRejected });
+  }
+  return opportunities;
+}
+
+/**
+ * Holidays no more than bridgeRadius days apart (e.g. Holi and Good Friday
+ * in the same fortnight) are also planned as one multi-holiday break.
+ */
+function findHolidayOpportunities(
+  rules: PlanRules,
+  rejected: RejectedOpportunity[]
+): Opportunity[] {
+  const weekdayHolidays = rules.holidays.filter(
+    h => !isWeeklyOff(h, rules.workWeek)
+  );
+  const results: Opportunity[] = [];
+
+  weekdayHolidays.forEach((first, i) => {
+    for (let j = i; j < weekdayHolidays.length; j++) {
+      if (
+        j > i &&
+        differenceInDays(weekdayHolidays[j], weekdayHolidays[j - 1]) >
+          rules.bridgeRadius
+      ) {
+        break;
+      }
+      results.push(
+        ...findCachedOpportunitiesAroundHolidays(
+          first,
+          weekdayHolidays[j],
+          rules,
+          rejected
+        )
+      );
+    }
+  });
+
+  return results;
+}
 
+/**
+ * Blocks that take one restricted holiday off: the holiday on its own
+ * (e.g. a Friday that bridges the weekend for free) and every bridge
+ * that uses it, built as if it were a company holiday. The solver keeps
+ * each group within its limit.
+ */
+function findOptionalHolidayOpportunities(rules: PlanRules): Opportunity[] {
   const results: Opportunity[] = [];
 
-  const before: Date[] = [];
-  let d = addDays(holiday, -1);
-  while (isWorkingDay(d, holidays)) {
-    before.unshift(normalize(d));
-    d = addDays(d, -1);
+  rules.optionalGroups.forEach((group, g) => {
+    for (const date of group.holidays.map(h => normalize(h.date))) {
+      if (!isWorkingDay(rules.calendar, date) || !isInWindow(date, rules.window)) continue;
+      if (findBlockedPeriod(date, rules.blockedPeriods)) continue;
+
+      const withHoliday: PlanRules = {
+        ...rules,
+        holidays: [...rules.holidays, date].sort((a, b) => a.getTime() - b.getTime()),
+        calendar: withDay(rules.calendar, date, { type: 'holiday' }),
+      };
+      const taken = { optionalHoliday: date, optionalGroup: g };
+
+      const { startDate, endDate } = extendToFullVacation([date], withHoliday, date);
+      const totalDays = getDateRange(startDate, endDate).length;
+      results.push({
+        kind: 'holiday',
+        anchor: date,
+        leaveDates: [],
+        halfDays: [],
+        sandwichDays: [],
+        startDate,
+        endDate,
+        totalDays,
+        leavesUsed: 0,
+        bonusDays: totalDays,
+        efficiency: Infinity,
+        ...taken,
+      });
+
+      // bridges elsewhere are found (and vetted) without it
+      results.push(
+        ...findHolidayOpportunities(withHoliday, [])
+          .filter(o => isWithinInterval(date, { start: o.startDate, end: o.endDate }))
+          .map(o => ({ ...o, ...taken }))
+      );
+    }
+  });
+
+  return results;
+}
+
+/**
+ * Blocks with no holiday nearby: leaves glued to a weekend, e.g. Fri + Mon
+ * or a whole Mon–Fri between two weekends.
+ */
+function findWeekendOpportunities(
+  from: Date,
+  to: Date,
+  rules: PlanRules
+): Opportunity[] {
+  const { maxContinuousLeaves } = rules;
+  const results: Opportunity[] = [];
+
+  // maximal runs of working days, each bounded by off days
+  const runs: Date[][] = [];
+  let run: Date[] = [];
+  for (const day of getDateRange(from, to)) {
+    if (isWorkingDay(rules.calendar, day)) {
+      run.push(day);
+    } else if (run.length) {
+      runs.push(run);
+      run = [];
+    }
   }
+  if (run.length) runs.push(run);
 
-  const after: Date[] = [];
-  d = addDays(holiday, 1);
-  while (isWorkingDay(d, holidays)) {
-    after.push(normalize(d));
-    d = addDays(d, 1);
+  for (const r of runs) {
+    const max = Math.min(r.length, maxContinuousLeaves);
+
+    for (let k = 1; k <= max; k++) {
+      const windows = k === r.length
+        ? [r]
+        : [r.slice(0, k), r.slice(r.length - k)];
+
+      for (const leaveDates of windows) {
+        const opp = buildOpportunity(leaveDates, leaveDates[0], 'weekend', rules);
+        if (opp) results.push(opp);
+      }
+    }
   }
 
-  // BEFORE only (up to maxContinuousLeaves)
-  const beforeOpp = buildOpportunity(
-    before.slice(-maxContinuousLeaves), 
-    holidays, 
-    holiday,
-    maxContinuousLeaves
+  return results;
+}
+
+/**
+ * One block per pinned period, with pins that would touch merged into a
+ * single break. Returns the blocks in date order with their source pins,
+ * and the pins without a working day to take off.
+ */
+function buildPinnedOpportunities(pins: PinnedPeriod[], rules: PlanRules) {
+  const blocks: { opp: Opportunity; pins: PinnedPeriod[] }[] = [];
+  const offDays: PinnedPeriod[] = [];
+
+  const sorted = [...pins].sort((a, b) => a.start.getTime() - b.start.getTime());
+  for (const pin of sorted) {
+    const last = blocks[blocks.length - 1];
+    const leaveDates = getDateRange(normalize(pin.start), normalize(pin.end))
+      .filter(d => isWorkingDay(rules.calendar, d));
+    const opp = buildOpportunity(leaveDates, leaveDates[0], 'pinned', rules);
+    if (!opp) {
+      offDays.push(pin);
+      continue;
+    }
+
+    if (last && conflicts(last.opp, opp)) {
+      const merged = buildOpportunity(
+        dedupeDates([...last.opp.leaveDates, ...leaveDates]),
+        last.opp.leaveDates[0],
+        'pinned',
+        rules
+      )!;
+      last.pins.push(pin);
+      last.opp = { ...merged, label: last.pins.map(p => p.label).join(' + ') };
+    } else {
+      blocks.push({ opp: { ...opp, label: pin.label }, pins: [pin] });
+    }
+  }
+
+  return { blocks, offDays };
+}
+
+/* -------------------- funding -------------------- */
+
+/**
+ * One pool's balance in one leave year. Plans spend per ledger, so a
+ * break across the reset draws each day from its own year's balance.
+ * Every year starts from the pool's full entitlement; carried-forward
+ * days aren't planned with.
+ */
+type Ledger = {
+  pool: LeavePool;
+  year: LeaveYear;
+};
+
+/** every plannable pool in every leave year of the window, pool by pool */
+function getLedgers(pools: LeavePool[], window: PlanningWindow): Ledger[] {
+  const years = getLeaveYears(window);
+  return pools.flatMap(pool => years.map(year => ({ pool, year })));
+}
+
+/** a chosen block and the pools paying for it */
+type Pick = {
+  opp: Opportunity;
+  allocations: LeaveAllocation[];
+};
+
+type Funding = {
+  used: number[];
+  allocations: LeaveAllocation[];
+};
+
+/**
+ * Ways to pay for a block on top of `used` (per ledger, then per optional
+ * holiday group): wholly from one non-combinable pool, or from the
+ * combinable pools in priority order. `ledgers` must be sorted by pool
+ * priority. `fixed`: picks counted in `used` that may come after the
+ * block (pinned leave, the holiday pass), so accrual is checked by date.
+ */
+function fundOpportunity(
+  opp: Opportunity,
+  ledgers: Ledger[],
+  used: number[],
+  rules: PlanRules,
+  fixed: Pick[] = []
+): Funding[] {
+  // a restricted holiday comes out of its group's allowance
+  const slot = opp.optionalGroup === undefined ? -1 : ledgers.length + opp.optionalGroup;
+  if (slot >= 0 && used[slot] + 1 > rules.optionalGroups[opp.optionalGroup!].limit) {
+    return [];
+  }
+  const takeOptional = (fundings: Funding[]) => {
+    if (slot >= 0) fundings.forEach(f => (f.used[slot] += 1));
+    return fundings;
+  };
+
+  const charged = [...opp.leaveDates, ...opp.sandwichDays].sort(
+    (a, b) => a.getTime() - b.getTime()
   );
-  if (beforeOpp) results.push(beforeOpp);
-
-  // AFTER only (up to maxContinuousLeaves)
-  const afterOpp = buildOpportunity(
-    after.slice(0, maxContinuousLeaves), 
-    holidays, 
-    holiday,
-    maxContinuousLeaves
+  if (!charged.length) {
+    return takeOptional([{ used: [...used], allocations: [] }]);
+  }
+
+  const halfKeys = new Set(opp.halfDays.map(toDayKey));
+  const amountOf = (date: Date) => (halfKeys.has(toDayKey(date)) ? 0.5 : 1);
+  const pools = [...new Set(ledgers.map(l => l.pool))];
+
+  // the ledger a day drawn from `pool` is charged to (-1 = outside the window)
+  const ledgerOf = (pool: LeavePool, date: Date) =>
+    ledgers.findIndex(
+      l => l.pool === pool && !isBefore(date, l.year.start) && !isAfter(date, l.year.end)
+    );
+
+  const poolById = new Map(pools.map(pool => [pool.id, pool]));
+  const fixedDraws = fixed
+    .flatMap(p => p.allocations)
+    .map(a => ({ ...a, ledger: ledgerOf(poolById.get(a.poolId)!, a.date) }));
+  // what ledger `l` has spent by `date`: `used` less the fixed draws after
+  // it (any other pick in `used` comes before the block)
+  const spentBy = (l: number, date: Date) =>
+    fixedDraws.reduce(
+      (sum, f) => (f.ledger === l && isAfter(f.date, date) ? sum - f.amount : sum),
+      used[l]
+    );
+
+  // `dates`: the days drawn from `pool` so far, in order
+  const withinLimit = (pool: LeavePool, dates: Date[]) => {
+    const drawn = new Map<number, number>();
+    const accruedBy = (l: number, date: Date) =>
+      getAccruedBalance(pool, date, ledgers[l].year.start);
+    return (
+      dates.every(d => {
+        const l = ledgerOf(pool, d);
+        if (l < 0) return false;
+        // only the lapse date in the day's own leave year applies
+        const lapseDate = getLapseDate(pool, ledgers[l].year.start, ledgers[l].year.end);
+        if (lapseDate && isAfter(d, lapseDate)) return false;
+        drawn.set(l, (drawn.get(l) ?? 0) + amountOf(d));
+        return spentBy(l, d) + drawn.get(l)! <= accruedBy(l, d);
+      }) &&
+      // the fixed draws after the block must still be credited by their dates
+      fixedDraws.every(
+        f =>
+          !drawn.has(f.ledger) ||
+          !isAfter(f.date, opp.endDate) ||
+          spentBy(f.ledger, f.date) + drawn.get(f.ledger)! <= accruedBy(f.ledger, f.date)
+      ) &&
+      (pool.maxConsecutive === undefined || !exceedsMaxChargedRun(dates, pool.maxConsecutive))
+    );
+  };
+
+  const fundings: Funding[] = [];
+
+  // combinable pools: each day from the first pool (in `order`) that can
+  // still take it
+  const fill = (order: LeavePool[]): Funding | null => {
+    const nextUsed = [...used];
+    const drawn = new Map<LeavePool, Date[]>();
+    const allocations: LeaveAllocation[] = [];
+
+    const ok = charged.every(date =>
+      order.some(pool => {
+        const dates = [...(drawn.get(pool) ?? []), date];
+        if (!withinLimit(pool, dates)) {
+          return false;
+        }
+        nextUsed[ledgerOf(pool, date)] += amountOf(date);
+        drawn.set(pool, dates);
+        allocations.push({ date, poolId: pool.id, amount: amountOf(date) });
+        return true;
+      })
+    );
+
+    return ok ? { used: nextUsed, allocations } : null;
+  };
+
+  const combinable = pools.filter(pool => pool.combinable);
+
+  if (combinable.length) {
+    // …or burn first what would otherwise lapse; the solver picks
+    const byLapse = [...combinable].sort(
+      (a, b) =>
+        (a.lapseDate?.getTime() ?? Infinity) - (b.lapseDate?.getTime() ?? Infinity) ||
+        keepableDays(a) - keepableDays(b)
+    );
+
+    const orders = byLapse.every((pool, k) => pool === combinable[k])
+      ? [combinable]
+      : [combinable, byLapse];
+
+    for (const order of orders) {
+      const funding = fill(order);
+      if (funding) fundings.push(funding);
+    }
+  }
+
+  pools.forEach(pool => {
+    if (pool.combinable || !withinLimit(pool, charged)) {
+      return;
+    }
+
+    const nextUsed = [...used];
+    charged.forEach(date => {
+      nextUsed[ledgerOf(pool, date)] += amountOf(date);
+    });
+    fundings.push({
+      used: nextUsed,
+      allocations: charged.map(date => ({ date, poolId: pool.id, amount: amountOf(date) })),
+    });
+  });
+
+  return takeOptional(fundings);
+}
+
+/** unused days a pool can keep at year end (carried + encashed) */
+function keepableDays(pool: LeavePool) {
+  return (pool.maxCarryForward ?? Infinity) + (pool.maxEncashable ?? 0);
+}
+
+/* -------------------- selection -------------------- */
+
+/** above this many DP cells fall back to the greedy pass */
+const EXACT_SOLVER_MAX_STATES = 2_000_000;
+
+/** plan values are whole thousandths of a day, so float noise can't decide ties */
+const VALUE_SCALE = 1000;
+
+type Selection = {
+  picks: Pick[];
+  used: number[];
+};
+
+/**
+ * Blocks must be separated by at least one working day, otherwise they
+ * would simply merge into one (double-counted) break.
+ */
+function conflicts(a: Opportunity, b: Opportunity) {
+  const [first, second] = isBefore(a.startDate, b.startDate) ? [a, b] : [b, a];
+  return differenceInDays(second.startDate, first.endDate) < 2;
+}
+
+/** working days between two blocks, counted up to `limit` */
+function workingDaysBetween(
+  a: Opportunity,
+  b: Opportunity,
+  rules: PlanRules,
+  limit: number
+) {
+  const [first, second] = isBefore(a.startDate, b.startDate) ? [a, b] : [b, a];
+  let gap = 0;
+  for (
+    let d = addDays(first.endDate, 1);
+    isBefore(d, second.startDate) && gap < limit;
+    d = addDays(d, 1)
+  ) {
+    if (isWorkingDay(rules.calendar, d)) gap++;
+  }
+  return gap;
+}
+
+/** can't both be in a plan: they touch, or sit closer than the min gap */
+function tooClose(a: Opportunity, b: Opportunity, rules: PlanRules) {
+  return (
+    conflicts(a, b) ||
+    (rules.minGapWorkingDays > 1 &&
+      workingDaysBetween(a, b, rules, rules.minGapWorkingDays) <
+        rules.minGapWorkingDays)
   );
-  if (afterOpp) results.push(afterOpp);
+}
 
-  // 🔥 COMBINED (this fixes Christmas)
-  const combined = [...before.slice(-maxContinuousLeaves), ...after.slice(0, maxContinuousLeaves)];
-  const combinedOpp = buildOpportunity(combined, holidays, holiday, maxContinuousLeaves);
-  if (combinedOpp) results.push(combinedOpp);
+/** the quarter holding most of a break, e.g. "2026-Q2" */
+function quarterOf(o: Opportunity) {
+  const middle = addDays(o.startDate, Math.floor(o.totalDays / 2));
+  return `${middle.getFullYear()}-Q${Math.floor(middle.getMonth() / 3) + 1}`;
+}
 
-  return results;
+/** breaks per required quarter, capped at the target */
+function addCoverage(coverage: number[], o: Opportunity, rules: PlanRules) {
+  const q = rules.quarters.indexOf(quarterOf(o));
+  if (q < 0 || coverage[q] >= rules.minBreaksPerQuarter) return coverage;
+
+  const next = [...coverage];
+  next[q] += 1;
+  return next;
 }
 
+/** breaks still missing from the quarterly target */
+function coverageShortfall(coverage: number[], rules: PlanRules) {
+  return coverage.reduce((sum, c) => sum + rules.minBreaksPerQuarter - c, 0);
+}
 
-/* -------------------- main optimizer -------------------- */
+function monthKey(d: Date) {
+  return format(d, 'yyyy-MM');
+}
 
-export function optimizeLeaves(
-  holidays: Date[],
-  totalLeaves: number,
-  _sandwichRule: boolean,
-  preferLonger: boolean,
-  maxContinuousLeaves: number = 3
-): OptimizationResult {
-  if (!holidays.length || totalLeaves <= 0) {
-    return emptyResult(totalLeaves);
+/** would these allocations push a month past maxLeavesPerMonth? */
+function exceedsMonthlyCap(
+  allocations: LeaveAllocation[],
+  others: Iterable<Pick>,
+  rules: PlanRules
+) {
+  if (rules.maxLeavesPerMonth === Infinity) return false;
+
+  const counts = new Map<string, number>();
+  for (const a of allocations) {
+    counts.set(monthKey(a.date), (counts.get(monthKey(a.date)) ?? 0) + a.amount);
   }
+  for (const pick of others) {
+    for (const a of pick.allocations) {
+      const key = monthKey(a.date);
+      if (counts.has(key)) counts.set(key, counts.get(key)! + a.amount);
+    }
+  }
+  return [...counts.values()].some(c => c > rules.maxLeavesPerMonth);
+}
 
-  const normalizedHolidays = holidays
-    .map(normalize)
-    .sort((a, b) => a.getTime() - b.getTime());
+/** DP cells the exact solver would need for this input */
+function countStates(
+  opportunities: Opportunity[],
+  ledgers: Ledger[],
+  used: number[],
+  rules: PlanRules
+) {
+  const coverageStates =
+    (rules.minBreaksPerQuarter + 1) ** rules.quarters.length;
+  // half-day leaves make every half a distinct balance
+  const steps = rules.halfDayLeaves && rules.halfDays.length ? 2 : 1;
+  const optionalStates = rules.optionalGroups.reduce(
+    (cells, group, g) => cells * (group.limit - used[ledgers.length + g] + 1),
+    1
+  );
+  return ledgers.reduce(
+    (cells, { pool }, i) => cells * (Math.floor((pool.balance - used[i]) * steps) + 1),
+    opportunities.length * coverageStates * optionalStates
+  );
+}
+
+/** prefer spending the higher-priority pools when plans tie */
+function prioritySpend(used: number[]) {
+  return used.reduce((sum, u, i) => sum + u * (used.length - i), 0);
+}
 
-  const opportunities = normalizedHolidays.flatMap(h =>
-    findOpportunitiesAroundHoliday(h, normalizedHolidays, maxContinuousLeaves)
+/**
+ * days that would be lost, at their lapse dates or the leave years' ends,
+ * with this much left unused
+ */
+function lapsedDays(ledgers: Ledger[], used: number[]) {
+  return ledgers.reduce(
+    (sum, { pool, year }, i) => sum + settleYearEnd(pool, pool.balance - used[i], year.start, year.end).lapsed,
+    0
   );
+}
 
-  opportunities.sort((a, b) =>
-    preferLonger
-      ? b.totalDays - a.totalDays
-      : b.efficiency - a.efficiency
+type PickNode = {
+  pick: Pick;
+  prev: PickNode | null;
+};
+
+function* chainPicks(node: PickNode | null) {
+  for (; node; node = node.prev) yield node.pick;
+}
+
+type PlanState = {
+  used: number[];
+  /** breaks per required quarter, see addCoverage */
+  coverage: number[];
+  value: number;
+  picks: PickNode | null;
+};
+
+/** lexicographic comparison of two rank tuples */
+function compareRanks(a: number[], b: number[]) {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return 0;
+}
+
+/** what the solver maximizes */
+type Objective = {
+  profile: ScoringProfile;
+  /** added per block, in days off: negative favours fewer, longer breaks */
+  blockBias: number;
+};
+
+/** worth of a block on its own, in days off */
+function blockWorth(o: Opportunity, objective: Objective) {
+  return (
+    scoreBreak(getDateRange(o.startDate, o.endDate), o.leavesUsed, objective.profile) +
+    objective.blockBias
   );
+}
 
-  const used = new Set<string>();
-  const selected: Opportunity[] = [];
-  let usedLeaves = 0;
+/**
+ * Exact 0/1 knapsack over non-overlapping blocks (weighted interval
+ * scheduling) with one budget per leave pool and leave year. Meets the quarterly target
+ * if any plan can, then maximizes the summed worth of the chosen blocks.
+ * Returns the best plan for every pool-usage vector, best first.
+ *
+ * Spacing and the monthly cap are checked against the plan being
+ * extended, which the DP state doesn't capture, so with either of them
+ * the result is very good rather than proven optimal.
+ */
+function selectExact(
+  opportunities: Opportunity[],
+  ledgers: Ledger[],
+  base: Selection,
+  objective: Objective,
+  rules: PlanRules
+): Selection[] {
+  const opps = [...opportunities].sort(
+    (a, b) => a.endDate.getTime() - b.endDate.getTime()
+  );
+  const n = opps.length;
 
-  for (const opp of opportunities) {
-    const keys = opp.leaveDates.map(d =>
-      format(d, 'yyyy-MM-dd')
-    );
+  // prev[i]: number of blocks (in end order) that can precede block i
+  const prev = opps.map((o, i) => {
+    let p = i;
+    while (p > 0 && tooClose(opps[p - 1], o, rules)) p--;
+    return p;
+  });
 
-    if (
-      keys.some(k => used.has(k)) ||
-      usedLeaves + keys.length > totalLeaves
-    ) {
+  const stateKey = (used: number[], coverage: number[]) =>
+    `${used.join(',')}|${coverage.join(',')}`;
+
+  const initialCoverage = base.picks.reduce(
+    (coverage, p) => addCoverage(coverage, p.opp, rules),
+    rules.quarters.map(() => 0)
+  );
+
+  // dp[i]: best plan per pool-usage (and quarter-coverage) vector using
+  // the first i blocks
+  const dp: Map<string, PlanState>[] = [
+    new Map([
+      [
+        stateKey(base.used, initialCoverage),
+        { used: base.used, coverage: initialCoverage, value: 0, picks: null },
+      ],
+    ]),
+  ];
+
+  for (let i = 1; i <= n; i++) {
+    const o = opps[i - 1];
+    const worth = blockWorth(o, objective);
+    const row = new Map(dp[i - 1]);
+    // states differing only in coverage fund a block the same way
+    const fundings = new Map<string, Funding[]>();
+
+    for (const state of dp[prev[i - 1]].values()) {
+      const last = state.picks?.pick.opp;
+      const spacing = scoreSpacing(
+        last ? differenceInDays(o.startDate, last.endDate) : null,
+        objective.profile
+      );
+      const value = Math.round((worth + spacing) * VALUE_SCALE);
+      const coverage = addCoverage(state.coverage, o, rules);
+
+      const usedKey = state.used.join(',');
+      if (!fundings.has(usedKey)) {
+        fundings.set(usedKey, fundOpportunity(o, ledgers, state.used, rules, base.picks));
+      }
+
+      for (const funding of fundings.get(usedKey)!) {
+        if (
+          rules.maxLeavesPerMonth !== Infinity &&
+          exceedsMonthlyCap(
+            funding.allocations,
+            [...base.picks, ...chainPicks(state.picks)],
+            rules
+          )
+        ) {
+          continue;
+        }
+
+        const key = stateKey(funding.used, coverage);
+        const existing = row.get(key);
+
+        if (!existing || state.value + value > existing.value) {
+          row.set(key, {
+            used: funding.used,
+            coverage,
+            value: state.value + value,
+            picks: {
+              pick: { opp: o, allocations: funding.allocations },
+              prev: state.picks,
+            },
+          });
+        }
+      }
+    }
+    dp.push(row);
+  }
+
+  // among equally good plans: lose the fewest days at year end, then spend
+  // the fewest leaves, then draw from the pools that should go first
+  const total = (used: number[]) => used.reduce((a, b) => a + b, 0);
+  const rank = (state: PlanState) => [
+    -coverageShortfall(state.coverage, rules),
+    state.value,
+    -lapsedDays(ledgers, state.used),
+    -total(state.used),
+    prioritySpend(state.used),
+  ];
+
+  const ranked = [...dp[n].values()]
+    .map(state => ({ state, rank: rank(state) }))
+    .sort((a, b) => compareRanks(b.rank, a.rank))
+    .map(({ state }) => state);
+
+  // one plan per pool-usage vector, the best-covered one
+  const seen = new Set<string>();
+  return ranked.filter(state => {
+    const key = state.used.join(',');
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  }).map(state => ({
+    picks: [...chainPicks(state.picks)],
+    used: state.used,
+  }));
+}
+
+/** fast fallback: take the best-ranked blocks while they still fit */
+function selectGreedy(
+  opportunities: Opportunity[],
+  ledgers: Ledger[],
+  base: Selection,
+  objective: Objective,
+  rules: PlanRules
+): Selection {
+  // worth per leave spent
+  // a block on a restricted holiday alone costs no leave at all
+  const density = (o: Opportunity) => blockWorth(o, objective) / Math.max(o.leavesUsed, 0.5);
+  const ranked = [...opportunities].sort((a, b) => density(b) - density(a));
+
+  const picks: Pick[] = [];
+  // counts its own picks whatever their date, so accrual checks stay safe
+  // (if conservative) although blocks are not taken in date order
+  let used = base.used;
+
+  for (const opp of ranked) {
+    if (picks.some(p => tooClose(p.opp, opp, rules))) continue;
+
+    // draw from whichever pool would otherwise lose the most days
+    const [funding] = fundOpportunity(opp, ledgers, used, rules, base.picks)
+      .filter(f => !exceedsMonthlyCap(f.allocations, [...base.picks, ...picks], rules))
+      .sort((a, b) => lapsedDays(ledgers, a.used) - lapsedDays(ledgers, b.used));
+    if (!funding) continue;
+
+    used = funding.used;
+    picks.push({ opp, allocations: funding.allocations });
+  }
+  return { picks, used };
+}
+
+/**
+ * Candidate selections on top of `base` (picks already in the plan), best
+ * first; the greedy fallback yields one
+ */
+function select(
+  opportunities: Opportunity[],
+  ledgers: Ledger[],
+  base: Selection,
+  objective: Objective,
+  rules: PlanRules
+): { selections: Selection[]; exact: boolean } {
+  const exact =
+    countStates(opportunities, ledgers, base.used, rules) <= EXACT_SOLVER_MAX_STATES;
+  const selections = exact
+    ? selectExact(opportunities, ledgers, base, objective, rules)
+    : [selectGreedy(opportunities, ledgers, base, objective, rules)];
+  return {
+    selections,
+    exact:
+      exact &&
+      !objective.profile.spacing &&
+      rules.maxLeavesPerMonth === Infinity,
+  };
+}
+
+/**
+ * Distribution constraints the final plan still breaks, as messages for
+ * the user (pinned leave, a tight budget or the greedy fallback)
+ */
+function findUnmetConstraints(picks: Pick[], rules: PlanRules): string[] {
+  const unmet: string[] = [];
+  const sorted = [...picks].sort(
+    (a, b) => a.opp.startDate.getTime() - b.opp.startDate.getTime()
+  );
+
+  if (rules.minGapWorkingDays > 1) {
+    sorted.slice(1).forEach((pick, k) => {
+      const before = sorted[k].opp;
+      const gap = workingDaysBetween(before, pick.opp, rules, rules.minGapWorkingDays);
+      if (gap < rules.minGapWorkingDays) {
+        unmet.push(
+          `Only ${gap} working day(s) between the ${format(before.startDate, 'MMM dd')} and ${format(pick.opp.startDate, 'MMM dd')} breaks (want ${rules.minGapWorkingDays})`
+        );
+      }
+    });
+  }
+
+  const coverage = sorted.reduce(
+    (c, p) => addCoverage(c, p.opp, rules),
+    rules.quarters.map(() => 0)
+  );
+  coverage.forEach((count, q) => {
+    if (count < rules.minBreaksPerQuarter) {
+      const quarter = rules.quarters[q].split('-').reverse().join(' ');
+      unmet.push(
+        count === 0
+          ? `No break in ${quarter}`
+          : `Only ${count} break(s) in ${quarter} (want ${rules.minBreaksPerQuarter})`
+      );
+    }
+  });
+
+  if (rules.maxLeavesPerMonth !== Infinity) {
+    const counts = new Map<string, number>();
+    for (const a of sorted.flatMap(p => p.allocations)) {
+      counts.set(monthKey(a.date), (counts.get(monthKey(a.date)) ?? 0) + a.amount);
+    }
+    counts.forEach((count, month) => {
+      if (count > rules.maxLeavesPerMonth) {
+        unmet.push(
+          `${count} leave days in ${format(parse(month, 'yyyy-MM', new Date()), 'MMM yyyy')} (limit ${rules.maxLeavesPerMonth})`
+        );
+      }
+    });
+  }
+
+  return unmet;
+}
+
+/* -------------------- main optimizer -------------------- */
+
+export interface OptimizerOptions {
+  /** spend leftover balance on weekend-bridged blocks with no holiday nearby */
+  weekendBreaks?: boolean;
+  /** max days between a leave day and the holiday it bridges (default 3) */
+  anchorWindow?: number;
+  /** max days between two holidays merged into one break (default 7) */
+  bridgeRadius?: number;
+  /** which days of the week are off (default Sat & Sun) */
+  workWeek?: WorkWeek;
+  /** holidays where the office closes at noon */
+  halfDayHolidays?: Holiday[];
+  /** take half-day leave on half-day holidays instead of a full day (default true) */
+  halfDayLeaves?: boolean;
+  /** restricted holidays; the optimizer picks which ones to take */
+  optionalHolidays?: OptionalHolidayGroup[];
+  /** blackout periods and mandatory office days */
+  blockedPeriods?: BlockedPeriod[];
+  /** leave already fixed; funded first, the rest is planned around it */
+  pinnedPeriods?: PinnedPeriod[];
+  /** working days required between two breaks (default 1) */
+  minGapWorkingDays?: number;
+  /** breaks wanted in every quarter of the window (default 0) */
+  minBreaksPerQuarter?: number;
+  /** most leave days, sandwiched ones included, charged in one month */
+  maxLeavesPerMonth?: number;
+  /** when leave may be planned (default: the calendar years of the holidays and pins) */
+  window?: PlanningWindow;
+}
+
+/** how far optimizeLeavePlans has got */
+export interface OptimizerProgress {
+  /** steps finished out of `total` */
+  done: number;
+  total: number;
+  /** what it is working on now */
+  stage: string;
+}
+
+/** everything a plan is built from, shared by every alternative */
+type PlanContext = {
+  pools: LeavePool[];
+  ledgers: Ledger[];
+  rules: PlanRules;
+  options: OptimizerOptions;
+  /** pinned blocks, funded before anything is optimized */
+  pinned: Selection;
+  unfundedPins: PinnedPeriod[];
+  offDayPins: PinnedPeriod[];
+  opportunities: Opportunity[];
+  /** every holiday block built, pinned clashes included */
+  holidayOpportunities: Opportunity[];
+  /** holiday blocks that broke the rules before selection */
+  rejected: RejectedOpportunity[];
+};
+
+function preparePlan(
+  holidays: Holiday[],
+  leaves: number | LeavePool[],
+  sandwichRule: boolean,
+  maxContinuousLeaves: number,
+  options: OptimizerOptions
+): PlanContext | Ledger[] {
+  const pools = getPlannablePools(
+    typeof leaves === 'number' ? [createLeavePool(leaves)] : leaves
+  );
+  const pinnedPeriods = options.pinnedPeriods ?? [];
+  const optionalDates = (options.optionalHolidays ?? []).flatMap(g => g.holidays.map(h => h.date));
+
+  const namedHolidays = holidays.map(h => ({ ...h, date: normalize(h.date) }));
+  const normalizedHolidays = namedHolidays
+    .map(h => h.date)
+    .sort((a, b) => a.getTime() - b.getTime());
+  const window = options.window ?? getDefaultWindow([
+    ...normalizedHolidays,
+    ...optionalDates,
+    ...pinnedPeriods.flatMap(p => [p.start, p.end]),
+  ]);
+  const ledgers = getLedgers(pools, window);
+
+  if (
+    (!holidays.length && !optionalDates.length && !pinnedPeriods.length) ||
+    !pools.length
+  ) {
+    return ledgers;
+  }
+
+  const namedHalfDays = (options.halfDayHolidays ?? []).map(h => ({ ...h, date: normalize(h.date) }));
+  const halfDays = namedHalfDays.map(h => h.date);
+  const workWeek = options.workWeek ?? DEFAULT_WORK_WEEK;
+
+  const rules: PlanRules = {
+    holidays: normalizedHolidays,
+    halfDays,
+    workWeek,
+    calendar: buildCalendarModel({
+      holidays: namedHolidays,
+      halfDayHolidays: namedHalfDays,
+      workWeek,
+    }),
+    maxContinuousLeaves,
+    sandwichRule,
+    halfDayLeaves: options.halfDayLeaves ?? true,
+    // a window of 0 would leave no day to bridge with
+    anchorWindow: Math.max(1, options.anchorWindow ?? 3),
+    bridgeRadius: options.bridgeRadius ?? 7,
+    blockedPeriods: options.blockedPeriods ?? [],
+    minGapWorkingDays: options.minGapWorkingDays ?? 1,
+    minBreaksPerQuarter: options.minBreaksPerQuarter ?? 0,
+    maxLeavesPerMonth: options.maxLeavesPerMonth ?? Infinity,
+    window,
+    optionalGroups: (options.optionalHolidays ?? []).filter(
+      g => g.limit > 0 && g.holidays.length > 0
+    ),
+    quarters: options.minBreaksPerQuarter ? getQuarters(window) : [],
+  };
+
+  // pinned leave comes off the balance before anything is optimized
+  const pinnedPicks: Pick[] = [];
+  const unfundedPins: PinnedPeriod[] = [];
+  let pinnedUsed = [
+    ...ledgers.map(() => 0),
+    ...rules.optionalGroups.map(() => 0),
+  ];
+
+  const { blocks: pinnedBlocks, offDays: offDayPins } = buildPinnedOpportunities(pinnedPeriods, rules);
+  for (const { opp, pins } of pinnedBlocks) {
+    const [funding] = fundOpportunity(opp, ledgers, pinnedUsed, rules).sort(
+      (a, b) => lapsedDays(ledgers, a.used) - lapsedDays(ledgers, b.used)
+    );
+    if (!funding) {
+      unfundedPins.push(...pins);
       continue;
     }
+    pinnedUsed = funding.used;
+    pinnedPicks.push({ opp, allocations: funding.allocations });
+  }
+
+  // a quarter without holidays can only meet the target with a weekend
+  // break, so those compete with the bridges instead of taking leftovers
+  const rejected: RejectedOpportunity[] = [];
+  const holidayOpportunities = dedupeOpportunities(
+    findHolidayOpportunities(rules, rejected)
+  );
+  const opportunities = dedupeOpportunities([
+    ...holidayOpportunities,
+    ...findOptionalHolidayOpportunities(rules),
+    ...(options.weekendBreaks && rules.minBreaksPerQuarter
+      ? findWeekendOpportunities(window.start, window.end, rules)
+      : []),
+  ]).filter(o => !pinnedPicks.some(p => tooClose(p.opp, o, rules)));
+
+  return {
+    pools,
+    ledgers,
+    rules,
+    options,
+    pinned: { picks: pinnedPicks, used: pinnedUsed },
+    unfundedPins,
+    offDayPins,
+    opportunities,
+    holidayOpportunities,
+    rejected,
+  };
+}
+
+/**
+ * Why each holiday block left out of the final plan wasn't taken, checked
+ * against the plan itself so the reason holds whichever solver ran
+ */
+function explainRejections(
+  ctx: PlanContext,
+  picks: Pick[],
+  recommendations: LeaveRecommendation[],
+  used: number[]
+): RejectedOpportunity[] {
+  const { ledgers, rules } = ctx;
+  const chosen = new Set(picks.map(p => p.opp));
+
+  return ctx.holidayOpportunities
+    .filter(o => !chosen.has(o))
+    .map(o => {
+      const rejection = {
+        holiday: o.anchor,
+        leaveDates: o.leaveDates,
+        startDate: o.startDate,
+        endDate: o.endDate,
+        totalDays: o.totalDays,
+        leavesUsed: o.leavesUsed,
+      };
+
+      // picks and recommendations are in the same (date) order
+      const overlapping = picks.findIndex(p => conflicts(p.opp, o));
+      if (overlapping >= 0) {
+        return { ...rejection, reason: 'overlap', clashesWith: recommendations[overlapping] };
+      }
+      const near = picks.findIndex(p => tooClose(p.opp, o, rules));
+      if (near >= 0) {
+        return { ...rejection, reason: 'min-gap', clashesWith: recommendations[near] };
+      }
+
+      const fundings = fundOpportunity(o, ledgers, used, rules, picks);
+      if (!fundings.length) {
+        return { ...rejection, reason: 'budget' };
+      }
+      if (fundings.every(f => exceedsMonthlyCap(f.allocations, picks, rules))) {
+        return { ...rejection, reason: 'monthly-cap' };
+      }
+      return { ...rejection, reason: 'low-score' };
+    });
+}
+
+/**
+ * Adds the weekend pass to a holiday selection and builds the result;
+ * `explain` = false skips the rejection trace for plans only compared
+ */
+function completePlan(
+  ctx: PlanContext,
+  selection: Selection,
+  exactSoFar: boolean,
+  objective: Objective,
+  explain = true
+): OptimizationResult {
+  const { pools, ledgers, rules } = ctx;
+  const picks = [...ctx.pinned.picks, ...selection.picks];
+  let { used } = selection;
+  let exact = exactSoFar;
 
-    keys.forEach(k => used.add(k));
-    usedLeaves += keys.length;
-    selected.push(opp);
+  // second pass: leftover balance goes to weekend breaks around the plan
+  if (ctx.options.weekendBreaks) {
+    const weekendOpps = findWeekendOpportunities(
+      rules.window.start,
+      rules.window.end,
+      rules
+    ).filter(o => !picks.some(p => tooClose(p.opp, o, rules)));
+
+    const weekend = select(weekendOpps, ledgers, { picks, used }, objective, rules);
+    picks.push(...weekend.selections[0].picks);
+    used = weekend.selections[0].used;
+    exact = exact && weekend.exact;
   }
 
-  const recommendations: LeaveRecommendation[] = selected.map(o => ({
-    leaveDates: o.leaveDates,
-    startDate: o.startDate,
-    endDate: o.endDate,
-    totalDays: o.totalDays,
-    leavesUsed: o.leaveDates.length,
-    description: `Take ${o.leaveDates.length} leave day(s) to get ${o.totalDays} continuous days off`,
-  }));
+  picks.sort((a, b) => a.opp.startDate.getTime() - b.opp.startDate.getTime());
+
+  // blocks never touch, so sandwiched days always belong to a single block
+  const recommendations: LeaveRecommendation[] = picks.map(({ opp: o, allocations }) => {
+    const included = [
+      o.halfDays.length ? `${o.halfDays.length} half day(s)` : '',
+      o.sandwichDays.length ? `${o.sandwichDays.length} sandwiched day(s)` : '',
+    ].filter(Boolean);
+    const includedNote = included.length ? ` (incl. ${included.join(', ')})` : '';
+    const bridgeNote = o.kind === 'weekend' ? ' around the weekend' : '';
+    const pinNote = o.kind === 'pinned' ? `${o.label}: ` : '';
+    const leaveNote = pools.length > 1
+      ? describeAllocations(allocations, pools)
+      : `${o.leavesUsed} leave day(s)`;
+    const optionalName = o.optionalHoliday && rules.optionalGroups[o.optionalGroup!].holidays
+      .find(h => toDayKey(h.date) === toDayKey(o.optionalHoliday!))?.name;
+    const optionalNote = o.optionalHoliday
+      ? `the ${optionalName ?? format(o.optionalHoliday, 'MMM dd')} restricted holiday`
+      : '';
+    const takeNote = [
+      o.leaveDates.length ? `${leaveNote}${includedNote}` : '',
+      optionalNote,
+    ].filter(Boolean).join(' plus ');
+    const holidayNames = o.kind === 'holiday' ? getHolidayNames(o.startDate, o.endDate, rules) : [];
+
+    return {
+      kind: o.kind,
+      label: o.label,
+      leaveDates: o.leaveDates,
+      halfDayLeaves: o.halfDays,
+      startDate: o.startDate,
+      endDate: o.endDate,
+      totalDays: o.totalDays,
+      leavesUsed: o.leavesUsed,
+      sandwichDays: o.sandwichDays,
+      allocations,
+      optionalHoliday: o.optionalHoliday,
+      description: holidayNames.length
+        ? `Bridge ${listNames(holidayNames)} with ${takeNote} to get ${o.totalDays} continuous days off`
+        : `${pinNote}Take ${takeNote}${bridgeNote} to get ${o.totalDays} continuous days off`,
+    };
+  });
+
+  const poolBalances = getPoolBalances(ledgers, used);
 
   return {
     recommendations,
-    optimizedLeaves: selected.flatMap(o => o.leaveDates),
+    optimizedLeaves: picks.flatMap(p => p.opp.leaveDates),
+    halfDayLeaves: picks.flatMap(p => p.opp.halfDays),
+    optionalHolidays: picks.flatMap(p => (p.opp.optionalHoliday ? [p.opp.optionalHoliday] : [])),
+    sandwichDays: recommendations.flatMap(r => r.sandwichDays),
     totalVacations: recommendations.length,
     longestBreak: Math.max(0, ...recommendations.map(r => r.totalDays)),
-    leavesRemaining: totalLeaves - usedLeaves,
+    totalDaysOff: recommendations.reduce((sum, r) => sum + r.totalDays, 0),
+    leavesUsed: recommendations.reduce((sum, r) => sum + r.leavesUsed, 0),
+    leavesRemaining: poolBalances.reduce((sum, b) => sum + b.remaining, 0),
+    poolBalances,
+    rejected: explain
+      ? dedupeRejected([
+          ...ctx.rejected,
+          ...explainRejections(ctx, picks, recommendations, used),
+        ])
+      : [],
+    unfundedPins: ctx.unfundedPins,
+    offDayPins: ctx.offDayPins,
+    unmetConstraints: findUnmetConstraints(picks, rules),
+    solver: exact ? 'exact' : 'greedy',
   };
 }
 
+/**
+ * `leaves` is either a plain balance or typed leave pools; each
+ * recommendation then says which pool every charged day comes from.
+ */
+export function optimizeLeaves(
+  holidays: Holiday[],
+  leaves: number | LeavePool[],
+  sandwichRule: boolean,
+  profile: ScoringProfile,
+  maxContinuousLeaves: number = 3,
+  options: OptimizerOptions = {}
+): OptimizationResult {
+  const ctx = preparePlan(holidays, leaves, sandwichRule, maxContinuousLeaves, options);
+  if (Array.isArray(ctx)) {
+    return emptyResult(ctx);
+  }
+
+  const objective: Objective = { profile, blockBias: 0 };
+  const { selections, exact } = select(
+    ctx.opportunities,
+    ctx.ledgers,
+    ctx.pinned,
+    objective,
+    ctx.rules
+  );
+  return completePlan(ctx, selections[0], exact, objective);
+}
+
+/**
+ * Per-break bonus (in days off) of each alternative search: negative
+ * merges breaks into fewer long ones, positive splits them up.
+ */
+const ALTERNATIVE_BREAK_BIASES = [-4, -2, 2];
+
+/** most alternatives offered next to the recommended plan */
+const MAX_ALTERNATIVES = 5;
+
+function planMetrics(plan: OptimizationResult) {
+  return [plan.totalDaysOff, -plan.leavesUsed, plan.longestBreak, plan.totalVacations];
+}
+
+/** at least as good on every metric and better on one */
+function dominates(a: OptimizationResult, b: OptimizationResult) {
+  const ma = planMetrics(a);
+  const mb = planMetrics(b);
+  return ma.every((m, i) => m >= mb[i]) && ma.some((m, i) => m > mb[i]);
+}
+
+/**
+ * The recommended plan (same as optimizeLeaves) followed by non-dominated
+ * alternatives trading total days off, leaves used, the longest break and
+ * the number of breaks against each other.
+ */
+export function optimizeLeavePlans(
+  holidays: Holiday[],
+  leaves: number | LeavePool[],
+  sandwichRule: boolean,
+  profile: ScoringProfile,
+  maxContinuousLeaves: number = 3,
+  options: OptimizerOptions = {},
+  onProgress?: (progress: OptimizerProgress) => void
+): OptimizationResult[] {
+  // preparing, the recommended search, one per bias, tracing the keepers
+  const total = ALTERNATIVE_BREAK_BIASES.length + 3;
+  let done = 0;
+  const step = (stage: string) => onProgress?.({ done: done++, total, stage });
+
+  step('Finding bridges around your holidays');
+  const ctx = preparePlan(holidays, leaves, sandwichRule, maxContinuousLeaves, options);
+  if (Array.isArray(ctx)) {
+    return [emptyResult(ctx)];
+  }
+
+  // candidates are compared untraced; the ones kept get their trace
+  const traced = new Map<OptimizationResult, () => OptimizationResult>();
+
+  const search = (blockBias: number) => {
+    const objective: Objective = { profile, blockBias };
+    const { selections, exact } = select(
+      ctx.opportunities,
+      ctx.ledgers,
+      ctx.pinned,
+      objective,
+      ctx.rules
+    );
+    // every final state of the exact solver is a plan spending a
+    // different amount of leave, unless weekend breaks soak up the rest
+    const plans = ctx.options.weekendBreaks ? selections.slice(0, 1) : selections;
+    return plans.map(selection => {
+      const plan = completePlan(ctx, selection, exact, objective, false);
+      traced.set(plan, () => completePlan(ctx, selection, exact, objective));
+      return plan;
+    });
+  };
+
+  step('Searching for the best plan');
+  const [recommended, ...cheaper] = search(0);
+  const candidates = [
+    ...cheaper,
+    ...ALTERNATIVE_BREAK_BIASES.flatMap(bias => {
+      step('Searching for alternative plans');
+      return search(bias);
+    }),
+  ];
+
+  const seen = new Set([planMetrics(recommended).join()]);
+  const front = candidates
+    .filter(plan => plan.recommendations.length > 0)
+    .filter(plan => plan.unmetConstraints.length <= recommended.unmetConstraints.length)
+    .filter(plan => !dominates(recommended, plan))
+    .filter(plan => !candidates.some(other => dominates(other, plan)))
+    .filter(plan => {
+      const key = planMetrics(plan).join();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => compareRanks(planMetrics(b), planMetrics(a)));
+
+  // keep the longest-break and most-breaks plans before filling up with
+  // the rest, so a long run of cheaper plans can't crowd them out
+  const champions = [2, 3].map(m => {
+    const byMetric = (plan: OptimizationResult) => {
+      const metrics = planMetrics(plan);
+      return [metrics[m], ...metrics];
+    };
+    return front.reduce<OptimizationResult | undefined>(
+      (best, plan) =>
+        !best || compareRanks(byMetric(plan), byMetric(best)) > 0 ? plan : best,
+      undefined
+    );
+  });
+
+  const alternatives = [...new Set([...champions, ...front])]
+    .filter((plan): plan is OptimizationResult => !!plan)
+    .slice(0, MAX_ALTERNATIVES)
+    .sort((a, b) => compareRanks(planMetrics(b), planMetrics(a)));
+
+  step('Explaining the choices');
+  const plans = [recommended, ...alternatives].map(plan => traced.get(plan)!());
+  onProgress?.({ done: total, total, stage: 'Done' });
+  return plans;
+}
+
 /* -------------------- helpers -------------------- */
 
-function emptyResult(totalLeaves: number): OptimizationResult {
+/** names of the company holidays in a break, in date order */
+function getHolidayNames(start: Date, end: Date, rules: PlanRules): string[] {
+  const names = getDateRange(start, end)
+    .map(d => rules.calendar.days.get(toDayKey(d))?.holidayName)
+    .filter((name): name is string => !!name);
+  return [...new Set(names)];
+}
+
+/** e.g. "Diwali", "Holi & Good Friday", "Onam, Diwali & Christmas" */
+function listNames(names: string[]): string {
+  if (names.length < 2) return names.join('');
+  return `${names.slice(0, -1).join(', ')} & ${names[names.length - 1]}`;
+}
+
+/** the calendar years holding these dates (this year when there are none) */
+function getDefaultWindow(dates: Date[]): PlanningWindow {
+  if (!dates.length) {
+    return getCalendarYearWindow(new Date().getFullYear());
+  }
+
+  const times = dates.map(d => d.getTime());
+  return {
+    kind: 'calendar',
+    start: startOfYear(Math.min(...times)),
+    end: startOfDay(endOfYear(Math.max(...times))),
+    leaveYearStartMonth: 0,
+  };
+}
+
+/** calendar quarters the window overlaps, e.g. "2026-Q4" */
+function getQuarters(window: PlanningWindow) {
+  const quarters: string[] = [];
+  for (
+    let q = startOfQuarter(window.start);
+    !isAfter(q, window.end);
+    q = addMonths(q, 3)
+  ) {
+    quarters.push(`${q.getFullYear()}-Q${Math.floor(q.getMonth() / 3) + 1}`);
+  }
+  return quarters;
+}
+
+/**
+ * neighbouring holidays yield the same leave set (and restricted holiday);
+ * keep the longest break
+ */
+function dedupeOpportunities(opportunities: Opportunity[]) {
+  const byLeaves = new Map<string, Opportunity>();
+
+  for (const opp of opportunities) {
+    const key = [
+      opp.leaveDates.map(toDayKey).join(','),
+      opp.optionalHoliday ? toDayKey(opp.optionalHoliday) : '',
+    ].join('|');
+    const existing = byLeaves.get(key);
+    if (!existing || opp.totalDays > existing.totalDays) {
+      byLeaves.set(key, opp);
+    }
+  }
+  return [...byLeaves.values()];
+}
+
+/** unique days, in date order */
+function dedupeDates(dates: Date[]) {
+  const byKey = new Map(dates.map(d => [toDayKey(d), d]));
+  return [...byKey.values()].sort((a, b) => a.getTime() - b.getTime());
+}
+
+/** one entry per holiday, leave set and reason */
+function dedupeRejected(rejected: RejectedOpportunity[]) {
+  const seen = new Set<string>();
+  return rejected.filter(r => {
+    const key = [
+      toDayKey(r.holiday),
+      r.leaveDates.map(toDayKey).join(','),
+      r.reason,
+      r.period?.label ?? '',
+    ].join('|');
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/** e.g. "2 Earned Leaves + 1 Casual Leaves" */
+function describeAllocations(allocations: LeaveAllocation[], pools: LeavePool[]) {
+  return pools
+    .map(pool => ({
+      pool,
+      count: allocations
+        .filter(a => a.poolId === pool.id)
+        .reduce((sum, a) => sum + a.amount, 0),
+    }))
+    .filter(({ count }) => count > 0)
+    .map(({ pool, count }) => `${count} ${pool.label}`)
+    .join(' + ');
+}
+
+function getPoolBalances(ledgers: Ledger[], used: number[]): PoolBalance[] {
+  return ledgers.map(({ pool, year }, i) => ({
+    poolId: pool.id,
+    label: pool.label,
+    leaveYear: year.label,
+    balance: pool.balance,
+    used: used[i],
+    remaining: pool.balance - used[i],
+    ...settleYearEnd(pool, pool.balance - used[i], year.start, year.end),
+  }));
+}
+
+function emptyResult(ledgers: Ledger[]): OptimizationResult {
+  const poolBalances = getPoolBalances(ledgers, ledgers.map(() => 0));
+
   return {
     recommendations: [],
     optimizedLeaves: [],
+    halfDayLeaves: [],
+    optionalHolidays: [],
+    sandwichDays: [],
     totalVacations: 0,
     longestBreak: 0,
-    leavesRemaining: totalLeaves,
+    totalDaysOff: 0,
+    leavesUsed: 0,
+    leavesRemaining: poolBalances.reduce((sum, b) => sum + b.remaining, 0),
+    poolBalances,
+    rejected: [],
+    unfundedPins: [],
+    offDayPins: [],
+    unmetConstraints: [],
+    solver: 'exact',
   };
-}
+}
\ No newline at end of file
@@ -0,0 +1,33 @@
+/**
+ * Optimizer worker
+ * Runs optimizeLeavePlans off the main thread and reports its progress
+ */
+
+import { optimizeLeavePlans } from './optimizer';
+import type { OptimizerWorkerMessage, OptimizerWorkerRequest } from './optimizerClient';
+
+const post = (message: OptimizerWorkerMessage) => self.postMessage(message);
+
+self.addEventListener('message', (event: MessageEvent<OptimizerWorkerRequest>) => {
+  const { runId, request } = event.data;
+  const { holidays, leaves, sandwichRule, profile, maxContinuousLeaves, options } = request;
+
+  try {
+    const plans = optimizeLeavePlans(
+      holidays,
+      leaves,
+      sandwichRule,
+      profile,
+      maxContinuousLeaves,
+      options,
+      progress => post({ runId, type: 'progress', progress })
+    );
+    post({ runId, type: 'result', plans });
+  } catch (error) {
+    post({
+      runId,
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
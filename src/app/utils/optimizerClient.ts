@@ -0,0 +1,173 @@
+/**
+ * Optimizer client
+ * Runs the optimizer in a dedicated worker so the page stays responsive,
+ * with progress events and cancellation
+ */
+
+import type {
+  OptimizationResult,
+  OptimizerOptions,
+  OptimizerProgress,
+} from './optimizer';
+import type { Holiday } from './calendarModel';
+import type { LeavePool } from './leavePools';
+import type { ScoringProfile } from './scoring';
+
+/** the arguments of optimizeLeavePlans, as sent to the worker */
+export interface OptimizeRequest {
+  holidays: Holiday[];
+  leaves: number | LeavePool[];
+  sandwichRule: boolean;
+  profile: ScoringProfile;
+  maxContinuousLeaves: number;
+  options: OptimizerOptions;
+}
+
+/** a request tagged with its run, so replies from a cancelled run can be told apart */
+export interface OptimizerWorkerRequest {
+  runId: number;
+  request: OptimizeRequest;
+}
+
+export type OptimizerWorkerMessage =
+  | { runId: number; type: 'progress'; progress: OptimizerProgress }
+  | { runId: number; type: 'result'; plans: OptimizationResult[] }
+  | { runId: number; type: 'error'; message: string };
+
+export interface OptimizerError {
+  type: 'CANCELLED' | 'WORKER_FAILED' | 'OPTIMIZER_FAILED';
+  message: string;
+  details?: string;
+}
+
+export interface OptimizerRun {
+  /** the plans, best first; rejects with an OptimizerError */
+  result: Promise<OptimizationResult[]>;
+  /** stops the run; `result` rejects with a CANCELLED error */
+  cancel: () => void;
+}
+
+type Settle = (error: OptimizerError | null, plans?: OptimizationResult[]) => void;
+
+/** kept between runs so the optimizer's opportunity cache survives */
+let worker: Worker | null = null;
+let lastRunId = 0;
+/** the run the caller is waiting on, and how to settle it */
+let activeId: number | null = null;
+let active: Settle | null = null;
+let listener: ((progress: OptimizerProgress) => void) | undefined;
+/** the worker is still busy with a run, possibly a cancelled one */
+let busy = false;
+/** the latest request to start once the worker is free; older ones are dropped */
+let queued: OptimizerWorkerRequest | null = null;
+
+function post(target: Worker, message: OptimizerWorkerRequest) {
+  if (busy) {
+    queued = message;
+    return;
+  }
+  busy = true;
+  target.postMessage(message);
+}
+
+function getWorker(): Worker {
+  if (worker) return worker;
+
+  const created = new Worker(new URL('./optimizer.worker.ts', import.meta.url), {
+    type: 'module',
+  });
+
+  created.addEventListener('message', (event: MessageEvent<OptimizerWorkerMessage>) => {
+    const message = event.data;
+    // a cancelled run still finishes in the worker; nobody is listening to it
+    const current = message.runId === activeId;
+    if (message.type === 'progress') {
+      if (current) listener?.(message.progress);
+      return;
+    }
+
+    if (current) {
+      if (message.type === 'result') {
+        active?.(null, message.plans);
+      } else {
+        active?.({ type: 'OPTIMIZER_FAILED', message: 'Optimization failed', details: message.message });
+      }
+    }
+
+    busy = false;
+    if (queued) {
+      const next = queued;
+      queued = null;
+      post(created, next);
+    }
+  });
+
+  created.addEventListener('error', (event) => {
+    // a broken worker is replaced on the next run
+    if (worker === created) worker = null;
+    created.terminate();
+    busy = false;
+    queued = null;
+    active?.({ type: 'WORKER_FAILED', message: 'Optimizer worker failed to start', details: event.message });
+  });
+
+  worker = created;
+  return created;
+}
+
+/**
+ * Rejects the active run and forgets it. The worker is left running (the
+ * optimizer is synchronous, so it can't be interrupted short of terminating
+ * it and losing its cache); whatever it sends back for the run is ignored.
+ */
+function cancelActive() {
+  if (!active) return;
+
+  if (queued?.runId === activeId) queued = null;
+  active({ type: 'CANCELLED', message: 'Optimization cancelled' });
+}
+
+/**
+ * Start an optimization. One run is in flight at a time: starting another
+ * cancels it. The worker and its cache are kept across runs; a run started
+ * while a cancelled one is still finishing waits for the worker to be free.
+ */
+export function runOptimizer(
+  request: OptimizeRequest,
+  onProgress?: (progress: OptimizerProgress) => void
+): OptimizerRun {
+  cancelActive();
+
+  let done = false;
+  const runId = ++lastRunId;
+  const result = new Promise<OptimizationResult[]>((resolve, reject) => {
+    const settle: Settle = (error, plans) => {
+      done = true;
+      activeId = null;
+      active = null;
+      listener = undefined;
+      if (error) reject(error);
+      else resolve(plans!);
+    };
+    activeId = runId;
+    active = settle;
+  });
+
+  listener = onProgress;
+  post(getWorker(), { runId, request });
+
+  return {
+    result,
+    cancel: () => {
+      if (!done) cancelActive();
+    },
+  };
+}
+
+export function isOptimizerError(error: unknown): error is OptimizerError {
+  return !!error && typeof error === 'object' && 'type' in error && 'message' in error;
+}
+
+export function isCancelled(error: unknown): boolean {
+  return isOptimizerError(error) && error.type === 'CANCELLED';
+}
@@ -184,10 +184,29 @@ function parseDateString(match: RegExpMatchArray, patternIndex: number): Date |
   }
 }
 
+/**
+ * The first date in a short text, e.g. a spreadsheet cell, by the same
+ * rules as the PDF text
+ */
+export function parseDateText(text: string): Date | null {
+  const normalizedText = normalizeText(text);
+
+  for (let patternIndex = 0; patternIndex < DATE_PATTERNS.length; patternIndex++) {
+    const pattern = DATE_PATTERNS[patternIndex];
+    pattern.lastIndex = 0;
+    const match = pattern.exec(normalizedText);
+    pattern.lastIndex = 0;
+
+    const date = match && parseDateString(match, patternIndex);
+    if (date) return date;
+  }
+  return null;
+}
+
 /**
  * Validate if a date is reasonable for a holiday calendar
  */
-function isValidHolidayDate(date: Date): boolean {
+export function isValidHolidayDate(date: Date): boolean {
   if (!(date instanceof Date) || isNaN(date.getTime())) {
     return false;
   }
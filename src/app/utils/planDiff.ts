@@ -0,0 +1,26 @@
+/**
+ * Plan diff
+ * What changed between two plans, e.g. after a holiday was toggled
+ */
+
+import type { OptimizationResult } from './optimizer';
+
+const CHANGES: { value: (plan: OptimizationResult) => number; one: string; many: string }[] = [
+  { value: p => p.totalVacations, one: 'break', many: 'breaks' },
+  { value: p => p.leavesUsed, one: 'leave', many: 'leaves' },
+  { value: p => p.totalDaysOff, one: 'day off', many: 'days off' },
+];
+
+/**
+ * e.g. "+1 break, −2 leaves"; empty when the totals didn't move
+ */
+export function describePlanDiff(before: OptimizationResult, after: OptimizationResult): string {
+  return CHANGES
+    .map(({ value, one, many }) => {
+      const delta = value(after) - value(before);
+      if (delta === 0) return null;
+      return `${delta > 0 ? '+' : '−'}${Math.abs(delta)} ${Math.abs(delta) === 1 ? one : many}`;
+    })
+    .filter(Boolean)
+    .join(', ');
+}
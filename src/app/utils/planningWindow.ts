@@ -0,0 +1,91 @@
+/**
+ * Planning window
+ * The stretch of time a plan covers, and the leave years it falls into
+ */
+
+import { addMonths, addDays, format, isAfter, isBefore, startOfDay } from 'date-fns';
+
+export type PlanningWindowKind = 'calendar' | 'fiscal' | 'custom';
+
+export interface PlanningWindow {
+  kind: PlanningWindowKind;
+  start: Date;
+  end: Date;
+  /** month the leave balance resets (0 = January, 3 = April) */
+  leaveYearStartMonth: number;
+}
+
+/** one reset-to-reset period of leave balances */
+export interface LeaveYear {
+  /** e.g. "2026" or "FY 2026–27" */
+  label: string;
+  start: Date;
+  end: Date;
+}
+
+export const FISCAL_YEAR_START_MONTH = 3; // April
+
+export function getCalendarYearWindow(year: number): PlanningWindow {
+  return {
+    kind: 'calendar',
+    start: new Date(year, 0, 1),
+    end: new Date(year, 11, 31),
+    leaveYearStartMonth: 0,
+  };
+}
+
+/** April `startYear` to March of the next year */
+export function getFiscalYearWindow(startYear: number): PlanningWindow {
+  return {
+    kind: 'fiscal',
+    start: new Date(startYear, FISCAL_YEAR_START_MONTH, 1),
+    end: new Date(startYear + 1, FISCAL_YEAR_START_MONTH, 0),
+    leaveYearStartMonth: FISCAL_YEAR_START_MONTH,
+  };
+}
+
+/**
+ * The leave year a date falls in
+ */
+export function getLeaveYear(date: Date, leaveYearStartMonth: number): LeaveYear {
+  const d = startOfDay(date);
+  const startYear = d.getMonth() >= leaveYearStartMonth
+    ? d.getFullYear()
+    : d.getFullYear() - 1;
+  const start = new Date(startYear, leaveYearStartMonth, 1);
+
+  return {
+    label: leaveYearStartMonth === 0
+      ? `${startYear}`
+      : `FY ${startYear}–${format(new Date(startYear + 1, 0, 1), 'yy')}`,
+    start,
+    end: addDays(addMonths(start, 12), -1),
+  };
+}
+
+/**
+ * Every leave year the window touches, in order
+ */
+export function getLeaveYears(window: PlanningWindow): LeaveYear[] {
+  const years: LeaveYear[] = [];
+  let year = getLeaveYear(window.start, window.leaveYearStartMonth);
+
+  while (!isAfter(year.start, window.end)) {
+    years.push(year);
+    year = getLeaveYear(addDays(year.end, 1), window.leaveYearStartMonth);
+  }
+  return years;
+}
+
+/**
+ * Check if a date is inside the window
+ */
+export function isInWindow(date: Date, window: PlanningWindow): boolean {
+  const d = startOfDay(date);
+  return !isBefore(d, startOfDay(window.start)) && !isAfter(d, startOfDay(window.end));
+}
+
+/** e.g. "Jan 2026 – Dec 2026" */
+export function describeWindow(window: PlanningWindow): string {
+  return `${format(window.start, 'MMM d, yyyy')} – ${format(window.end, 'MMM d, yyyy')}`;
+}
@@ -0,0 +1,69 @@
+/**
+ * Scoring profile
+ * How much a break is worth beyond its plain number of days off
+ */
+
+export interface ScoringProfile {
+  /** 0–1: reluctance to spend leave on low-yield breaks */
+  efficiency: number;
+  /** 0–1: extra worth of every day beyond a long weekend */
+  length: number;
+  /** 0–1: how strongly liked / disliked months count */
+  seasonality: number;
+  /** 0–1: preference for breaks spread evenly over the year */
+  spacing: number;
+  /** per month (0 = January): 1 = liked, -1 = disliked, 0 = neutral */
+  monthPreferences: number[];
+}
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  efficiency: 0,
+  length: 0,
+  seasonality: 0,
+  spacing: 0,
+  monthPreferences: Array(12).fill(0),
+};
+
+/** a Thursday–Sunday break; longer ones earn the length bonus */
+const LONG_WEEKEND_DAYS = 4;
+
+/** breaks at least this far apart get the full spacing score */
+const IDEAL_GAP_DAYS = 60;
+
+/** days of worth a break loses when it directly follows another */
+const SPACING_SCALE = 3;
+
+/**
+ * Worth of one break in days off: its length, adjusted by the profile
+ */
+export function scoreBreak(
+  days: Date[],
+  leavesUsed: number,
+  profile: ScoringProfile
+): number {
+  const seasonal = days.reduce(
+    (sum, d) => sum + (profile.monthPreferences[d.getMonth()] ?? 0),
+    0
+  );
+
+  return (
+    days.length -
+    profile.efficiency * leavesUsed +
+    profile.length * Math.max(0, days.length - LONG_WEEKEND_DAYS) +
+    profile.seasonality * seasonal
+  );
+}
+
+/**
+ * Spacing worth of a break that starts `gapDays` after the previous one
+ * ended (no previous break = full score)
+ */
+export function scoreSpacing(
+  gapDays: number | null,
+  profile: ScoringProfile
+): number {
+  if (!profile.spacing) return 0;
+
+  const spread = gapDays === null ? 1 : Math.min(gapDays, IDEAL_GAP_DAYS) / IDEAL_GAP_DAYS;
+  return profile.spacing * SPACING_SCALE * spread;
+}
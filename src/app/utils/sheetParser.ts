@@ -0,0 +1,267 @@
+/**
+ * Spreadsheet Holiday Parser
+ * Reads holiday lists from .csv and .xlsx files, finds the date and name
+ * columns, and turns the rows into holidays
+ */
+
+import { isValidHolidayDate, parseDateText, ParsedHoliday, ParseError } from './pdfParser';
+
+export type SheetCell = string | number | boolean | Date | null;
+
+/** the first sheet of a file, split into its header and data rows */
+export interface SheetTable {
+  /** column titles, or "Column A", "Column B"… when the file has none */
+  headers: string[];
+  rows: SheetCell[][];
+}
+
+/** which columns hold the holiday date and its name */
+export interface ColumnMapping {
+  dateColumn: number;
+  /** null when the names aren't wanted or there is no such column */
+  nameColumn: number | null;
+}
+
+const DATE_HEADER = /date/i;
+const NAME_HEADER = /occasion|holiday|name|festival|event|description|title|particulars|reason/i;
+const WEEKDAY = /^(sun|mon|tue|wed|thu|fri|sat)[a-z]*\.?$/i;
+
+/** rows searched for the header and the first holiday */
+const HEADER_SEARCH_ROWS = 10;
+
+const NUMERIC_DATE = /^\s*(\d{1,2})([-\/])(\d{1,2})\2(\d{4})\s*$/;
+
+/** Excel serial day numbers between 2000 and 2100 */
+const EXCEL_SERIAL_RANGE = [36526, 73051];
+
+/**
+ * Split CSV text into rows (RFC 4180: quoted fields may hold the
+ * delimiter, line breaks and doubled quotes), guessing the delimiter
+ * from the first line
+ */
+function parseCSV(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * A cell as a local calendar date: spreadsheet dates, Excel serial
+ * numbers, or text in any format the PDF parser understands. `dayFirst`
+ * reads 02/10/2026 as 2 October, where the PDF rules would guess.
+ */
+export function parseCellDate(cell: SheetCell, dayFirst = false): Date | null {
+  if (cell instanceof Date) {
+    // spreadsheet dates are read as UTC midnight
+    const date = new Date(cell.getUTCFullYear(), cell.getUTCMonth(), cell.getUTCDate());
+    return isNaN(date.getTime()) ? null : date;
+  }
+  if (typeof cell === 'number') {
+    if (cell < EXCEL_SERIAL_RANGE[0] || cell > EXCEL_SERIAL_RANGE[1]) return null;
+    // serial 25569 is 1970-01-01
+    const utc = new Date((Math.floor(cell) - 25569) * 86400000);
+    return new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate());
+  }
+  if (typeof cell === 'string' && cell.trim()) {
+    const numeric = dayFirst && cell.match(NUMERIC_DATE);
+    if (numeric) {
+      const [, day, , month, year] = numeric;
+      return parseDateText(`${year}-${month}-${day}`);
+    }
+    return parseDateText(cell);
+  }
+  return null;
+}
+
+/**
+ * Whether a column writes numeric dates day first: one cell such as
+ * 15/08/2026 settles it for the whole column
+ */
+function isDayFirst(table: SheetTable, column: number): boolean {
+  return table.rows.some(row => {
+    const match = typeof row[column] === 'string' && (row[column] as string).match(NUMERIC_DATE);
+    return !!match && Number(match[1]) > 12;
+  });
+}
+
+function cellText(cell: SheetCell): string {
+  if (cell === null || cell === undefined) return '';
+  if (cell instanceof Date) return cell.toISOString().slice(0, 10);
+  return String(cell).trim();
+}
+
+function columnLabel(index: number): string {
+  let label = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    label = String.fromCharCode(65 + ((n - 1) % 26)) + label;
+  }
+  return `Column ${label}`;
+}
+
+/**
+ * Split rows into a header and data. The header is the row just above
+ * the first row with a date, so a title line above it ("Holiday List
+ * 2026") is skipped.
+ */
+function toTable(rawRows: SheetCell[][]): SheetTable {
+  const rows = rawRows.filter(row => row.some(cell => cellText(cell) !== ''));
+  const width = Math.max(0, ...rows.map(row => row.length));
+  const padded = rows.map(row => Array.from({ length: width }, (_, i) => row[i] ?? null));
+
+  const firstDateRow = padded
+    .slice(0, HEADER_SEARCH_ROWS)
+    .findIndex(row => row.some(cell => parseCellDate(cell) !== null));
+  const headerRow = firstDateRow > 0 ? firstDateRow - 1 : -1;
+
+  return {
+    headers: Array.from({ length: width }, (_, i) =>
+      (headerRow >= 0 && cellText(padded[headerRow][i])) || columnLabel(i)
+    ),
+    rows: padded.slice(headerRow + 1),
+  };
+}
+
+/**
+ * Read the first sheet of a .csv or .xlsx file
+ */
+export async function readHolidaySheet(file: File): Promise<SheetTable> {
+  const MAX_SIZE = 5 * 1024 * 1024; // 5MB
+  if (file.size > MAX_SIZE) {
+    throw {
+      type: 'PARSE_ERROR',
+      message: 'File too large',
+      details: `File size (${(file.size / 1024 / 1024).toFixed(2)}MB) exceeds 5MB limit`,
+    } as ParseError;
+  }
+
+  const name = file.name.toLowerCase();
+  let rows: SheetCell[][];
+
+  try {
+    if (name.endsWith('.csv') || file.type === 'text/csv') {
+      rows = parseCSV(await file.text());
+    } else if (name.endsWith('.xlsx')) {
+      const { readSheet } = await import('read-excel-file/browser');
+      rows = (await readSheet(file)) as SheetCell[][];
+    } else {
+      throw {
+        type: 'UNSUPPORTED_FORMAT',
+        message: 'File must be a .csv or .xlsx spreadsheet',
+        details: name.endsWith('.xls') ? 'Older .xls files must be saved as .xlsx or .csv first' : undefined,
+      } as ParseError;
+    }
+  } catch (error: unknown) {
+    // our own ParseError, thrown above
+    if (error && typeof error === 'object' && 'type' in error) throw error;
+    throw {
+      type: 'PARSE_ERROR',
+      message: 'Could not read the spreadsheet',
+      details: error instanceof Error ? error.message : String(error),
+    } as ParseError;
+  }
+
+  const table = toTable(rows);
+  if (table.rows.length === 0) {
+    throw { type: 'NO_DATES', message: 'Spreadsheet has no rows' } as ParseError;
+  }
+  return table;
+}
+
+/** share of a column's filled cells that pass `test` */
+function columnScore(table: SheetTable, column: number, test: (cell: SheetCell) => boolean): number {
+  const filled = table.rows.map(row => row[column]).filter(cell => cellText(cell) !== '');
+  if (filled.length === 0) return 0;
+  return filled.filter(test).length / filled.length;
+}
+
+/**
+ * Guess the date and name columns from the headers ("Date", "Occasion")
+ * and the cells. Null when no column holds mostly dates; the user then
+ * picks the columns.
+ */
+export function detectColumns(table: SheetTable): ColumnMapping | null {
+  const columns = table.headers.map((_, i) => i);
+  const dateScore = (i: number) => columnScore(table, i, cell => parseCellDate(cell) !== null);
+
+  const dateColumn =
+    columns.find(i => DATE_HEADER.test(table.headers[i]) && dateScore(i) >= 0.5) ??
+    columns
+      .filter(i => dateScore(i) >= 0.5)
+      .sort((a, b) => dateScore(b) - dateScore(a))[0];
+  if (dateColumn === undefined) return null;
+
+  // text that isn't a date or a weekday ("Day" columns)
+  const isName = (cell: SheetCell) =>
+    typeof cell === 'string' && /[a-z]/i.test(cell) && !WEEKDAY.test(cell.trim()) && parseCellDate(cell) === null;
+  const candidates = columns.filter(i => i !== dateColumn && columnScore(table, i, isName) >= 0.5);
+
+  const nameColumn =
+    candidates.find(i => NAME_HEADER.test(table.headers[i])) ??
+    candidates.sort((a, b) => columnScore(table, b, isName) - columnScore(table, a, isName))[0] ??
+    null;
+
+  return { dateColumn, nameColumn };
+}
+
+/**
+ * One holiday per row with a date in range, keeping the first row of a
+ * date seen twice
+ */
+export function sheetToHolidays(table: SheetTable, mapping: ColumnMapping): ParsedHoliday[] {
+  const holidays = new Map<string, ParsedHoliday>();
+  const dayFirst = isDayFirst(table, mapping.dateColumn);
+
+  for (const row of table.rows) {
+    const date = parseCellDate(row[mapping.dateColumn], dayFirst);
+    if (!date || !isValidHolidayDate(date)) continue;
+
+    const key = `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+    if (holidays.has(key)) continue;
+
+    const name = mapping.nameColumn !== null ? cellText(row[mapping.nameColumn]) : '';
+    holidays.set(key, { date, name: name || undefined });
+  }
+
+  return [...holidays.values()].sort((a, b) => a.date.getTime() - b.date.getTime());
+}
@@ -0,0 +1,68 @@
+/**
+ * Work week definitions
+ * Which days of the week are off, including "2nd and 4th Saturday off" patterns
+ */
+
+export interface WorkWeek {
+  id: string;
+  label: string;
+  /** days of the week that are always off (0 = Sunday … 6 = Saturday) */
+  weekendDays: number[];
+  /** a day that is only off in some weeks of the month, e.g. 2nd & 4th Saturday */
+  alternateOff?: {
+    day: number;
+    weeksOfMonth: number[];
+  };
+}
+
+export const WORK_WEEKS: WorkWeek[] = [
+  {
+    id: 'mon-fri',
+    label: 'Mon–Fri (Sat & Sun off)',
+    weekendDays: [0, 6],
+  },
+  {
+    id: 'sun-thu',
+    label: 'Sun–Thu (Fri & Sat off)',
+    weekendDays: [5, 6],
+  },
+  {
+    id: 'mon-sat-2-4',
+    label: 'Mon–Sat (2nd & 4th Saturday off)',
+    weekendDays: [0],
+    alternateOff: { day: 6, weeksOfMonth: [2, 4] },
+  },
+  {
+    id: 'mon-sat-1-3',
+    label: 'Mon–Sat (1st & 3rd Saturday off)',
+    weekendDays: [0],
+    alternateOff: { day: 6, weeksOfMonth: [1, 3] },
+  },
+  {
+    id: 'mon-sat',
+    label: 'Mon–Sat (Sun off)',
+    weekendDays: [0],
+  },
+];
+
+export const DEFAULT_WORK_WEEK = WORK_WEEKS[0];
+
+/**
+ * Check if a date is a weekly off day under the given work week
+ */
+export function isWeeklyOff(date: Date, workWeek: WorkWeek): boolean {
+  const day = date.getDay();
+
+  if (workWeek.weekendDays.includes(day)) {
+    return true;
+  }
+
+  const alternate = workWeek.alternateOff;
+  if (alternate && alternate.day === day) {
+    // 1st Saturday = days 1–7, 2nd = 8–14, …
+    const weekOfMonth = Math.ceil(date.getDate() / 7);
+    return alternate.weeksOfMonth.includes(weekOfMonth);
+  }
+
+  return false;
+}